@@ -5,7 +5,8 @@
  *
  * Core behavior:
  * - Overrides `session_before_compact` with observational summaries.
- * - Uses the active session model (parent model) by default.
+ * - Uses configurable observer/reflector model roles with ordered fallback chains
+ *   (default: the active session model).
  * - Runs a lightweight reflector pass (dedupe/prune) on large observation sets.
  * - Optionally forces aggressive reflection via `/obs-reflect`.
  * - Overrides `session_before_tree` summaries with the same observational format.
@@ -13,30 +14,65 @@
  * - Supports buffered (default) and blocking observer modes.
  * - Supports partial activation via raw-tail retention buffer (default 8k).
  * - Triggers reflector GC at configurable observation-block tokens (default 40k).
+ * - Stores observations as structured records with stable ids in `compaction.details`.
+ * - Tags observer input with session entry ids so `/obs-trace` can show where an observation came from.
+ * - Registers an `obs_search` tool so the agent can search older compactions and branch summaries.
+ * - Logs each summarizer run to a local telemetry JSONL file, aggregated by `/obs-stats`.
+ * - Retries summarizer calls with a timeout and backoff, then falls back along the role's model chain.
+ * - Validates summarizer output format and repairs drift deterministically, then with a repair call.
  */
 
-import { completeSimple, type Model } from "@mariozechner/pi-ai";
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { completeSimple, type Model, StringEnum, type Usage } from "@mariozechner/pi-ai";
 import {
 	type CompactionResult,
 	convertToLlm,
 	type ExtensionAPI,
+	type ExtensionCommandContext,
 	type ExtensionContext,
-	estimateTokens,
+	type estimateTokens,
 	type FileOperations,
+	getAgentDir,
 	prepareBranchEntries,
 	type SessionEntry,
 	serializeConversation,
 } from "@mariozechner/pi-coding-agent";
-import { ObservationMemoryOverlay, type ObservationMemoryOverlaySnapshot } from "./overlay.js";
-
-const DETAILS_SCHEMA_VERSION = 2;
+import { Type } from "@sinclair/typebox";
+import {
+	formatStatusWidget,
+	formatUsage,
+	ObservationMemoryOverlay,
+	type ObservationMemoryOverlayAction,
+	type ObservationMemoryOverlaySetting,
+	type ObservationMemoryOverlaySettingsHandler,
+	type ObservationMemoryOverlaySnapshot,
+	type ObservationMemoryUsage,
+} from "./overlay.js";
+
+const DETAILS_SCHEMA_VERSION = 3;
 
 const OBS_STATUS_COMMAND = "obs-memory-status";
 const OBS_REFLECT_COMMAND = "obs-reflect";
 const OBS_AUTO_COMPACT_COMMAND = "obs-auto-compact";
 const OBS_MODE_COMMAND = "obs-mode";
 const OBS_VIEW_COMMAND = "obs-view";
+const OBS_MODEL_COMMAND = "obs-model";
+const OBS_REBUILD_COMMAND = "obs-rebuild";
+const OBS_DUMP_COMMAND = "obs-dump";
+const OBS_TRACE_COMMAND = "obs-trace";
+const OBS_PIN_COMMAND = "obs-pin";
+const OBS_UNPIN_COMMAND = "obs-unpin";
+const OBS_ADD_COMMAND = "obs-add";
+const OBS_EDIT_COMMAND = "obs-edit";
+const OBS_FORGET_COMMAND = "obs-forget";
+const OBS_PROJECT_COMMAND = "obs-project";
+const OBS_DIFF_COMMAND = "obs-diff";
+const OBS_STATS_COMMAND = "obs-stats";
 const OBS_STATUS_SHORTCUT = "ctrl+shift+o";
+const OVERLAY_SPINNER_INTERVAL_MS = 100;
+const STATUS_WIDGET_KEY = "observational-memory";
 
 const DEFAULT_RESERVE_TOKENS = 16384;
 
@@ -51,9 +87,206 @@ const DEFAULT_OBS_MODE = "buffered" as const;
 const DEFAULT_OBSERVER_TRIGGER_TOKENS = 30_000;
 const DEFAULT_REFLECTOR_TRIGGER_TOKENS = 40_000;
 const DEFAULT_RAW_TAIL_RETAIN_TOKENS = 8_000;
+const DEFAULT_DEDUPE_SIMILARITY = 0.5;
+/** Off unless enabled: project memory writes a file into the user's repository. */
+const DEFAULT_PROJECT_MEMORY_ENABLED = false;
+const DEFAULT_PROJECT_MEMORY_BUDGET = 4_000;
+const PROJECT_MEMORY_BUDGET_MIN = 500;
+const DEDUPE_SIMILARITY_MIN = 0.1;
+const REFLECTOR_CAP_MAX = 1_000;
 const AUTO_COMPACT_COOLDOWN_MS = 5000;
 const AUTO_TOKENS_MIN = 2_000;
 const AUTO_TOKENS_MAX = 500_000;
+const DEFAULT_SUMMARIZER_TIMEOUT_MS = 180_000;
+const DEFAULT_SUMMARIZER_RETRIES = 2;
+const DEFAULT_SUMMARIZER_BACKOFF_MS = 2_000;
+const SUMMARIZER_RETRIES_MAX = 5;
+const SUMMARIZER_DURATION_MAX_MS = 1_800_000;
+const SUMMARIZER_EMPTY_RETRY_SUFFIX =
+	"\n\nIMPORTANT: Output ONLY markdown in the required three-section format. Do not return empty output.";
+/** Provider errors worth retrying on the same model: rate limits, overload, 5xx and network failures. */
+const TRANSIENT_ERROR_RE =
+	/\b(?:408|409|425|429|500|502|503|504|529)\b|rate.?limit|overloaded|too many requests|timed? ?out|timeout|temporarily|unavailable|econnreset|econnrefused|etimedout|eai_again|enotfound|socket hang up|fetch failed|network/i;
+
+const ACTIVE_MODEL_REF = "active";
+const DEFAULT_MODEL_CHAIN = [ACTIVE_MODEL_REF] as const;
+const CONFIG_FILE_NAME = "observational-memory.json";
+const DUMP_SCHEMA = "pi-observational-memory.dump" as const;
+const DUMP_SCHEMA_VERSION = 1;
+const DEFAULT_DUMP_DIR = join(".pi", "observational-memory");
+const SETTINGS_ENTRY_TYPE = "observational-memory-settings";
+const PINS_ENTRY_TYPE = "observational-memory-pins";
+const EDITS_ENTRY_TYPE = "observational-memory-edits";
+const FAILURE_ENTRY_TYPE = "observational-memory-failure";
+const PROJECT_MEMORY_MESSAGE_TYPE = "observational-memory-project";
+const PROJECT_MEMORY_FILE_NAME = "project-memory.json";
+const PROJECT_MEMORY_SCHEMA = "pi-observational-memory.project" as const;
+const PROJECT_MEMORY_SCHEMA_VERSION = 1;
+/** Off unless enabled: the log is written into the project's `.pi/` directory. */
+const DEFAULT_TELEMETRY_ENABLED = false;
+const TELEMETRY_FILE_NAME = "telemetry.jsonl";
+/** Size at which the log is rotated to `telemetry.jsonl.1`, replacing the previous rotation. */
+const TELEMETRY_MAX_BYTES = 1_048_576;
+const TELEMETRY_SCHEMA = "pi-observational-memory.telemetry" as const;
+const TELEMETRY_SCHEMA_VERSION = 1;
+const STATS_MAX_SESSIONS = 10;
+const OBS_SEARCH_TOOL = "obs_search";
+const SEARCH_DEFAULT_LIMIT = 10;
+const SEARCH_MAX_LIMIT = 50;
+const SEARCH_HIT_MAX_CHARS = 300;
+const OVERRIDE_LAYERS = ["global", "project", "flag", "runtime"] as const;
+const SETTING_KEYS = [
+	"autoCompact",
+	"mode",
+	"observerThreshold",
+	"reflectorThreshold",
+	"retainRawTail",
+	"dedupeSimilarity",
+	"projectMemory",
+	"projectMemoryBudget",
+	"reflectorCaps",
+	"forcedReflectorCaps",
+	"telemetry",
+	"summarizerTimeout",
+	"summarizerRetries",
+	"summarizerBackoff",
+	"observerModels",
+	"reflectorModels",
+] as const satisfies readonly SettingKey[];
+
+/** Settings editable in the overlay's Settings tab, in display order. */
+const OVERLAY_SETTING_KEYS = [
+	"autoCompact",
+	"mode",
+	"observerThreshold",
+	"reflectorThreshold",
+	"retainRawTail",
+	"reflectorCaps",
+	"forcedReflectorCaps",
+	"summarizerTimeout",
+	"summarizerRetries",
+	"summarizerBackoff",
+] as const satisfies readonly SettingKey[];
+
+const SETTING_FLAGS: Record<SettingKey, string> = {
+	autoCompact: "obs-auto-compact",
+	mode: "obs-mode",
+	observerThreshold: "obs-observer-threshold",
+	reflectorThreshold: "obs-reflector-threshold",
+	retainRawTail: "obs-retain-raw-tail",
+	dedupeSimilarity: "obs-dedupe-similarity",
+	projectMemory: "obs-project-memory",
+	projectMemoryBudget: "obs-project-memory-budget",
+	reflectorCaps: "obs-reflector-caps",
+	forcedReflectorCaps: "obs-forced-reflector-caps",
+	telemetry: "obs-telemetry",
+	summarizerTimeout: "obs-summarizer-timeout",
+	summarizerRetries: "obs-summarizer-retries",
+	summarizerBackoff: "obs-summarizer-backoff",
+	observerModels: "obs-observer-model",
+	reflectorModels: "obs-reflector-model",
+};
+
+const SOURCE_TAG_RE = /\s*\[src:\s*([^\]]*)\]\s*$/i;
+const TIME_PREFIX_RE = /^(\d{1,2}:\d{2})\s+/;
+const DAY_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TRACE_PREVIEW_CHARS = 240;
+const SUMMARY_SECTIONS = ["## Observations", "## Open Threads", "## Next Action Bias"] as const;
+/** Section that older versions appended when the observer broke the format; never written anymore. */
+const LEGACY_RAW_OUTPUT_HEADING = "## Raw Observer Output";
+const DATE_HEADER_RE = /^Date: (?:\d{4}-\d{2}-\d{2}|unknown)$/;
+const OBSERVATION_BULLET_RE = /^- (?:🔴|🟡|🟢) (?:\d{2}:\d{2} )?\S/u;
+const FORMAT_WARNINGS_MAX = 20;
+const FORMAT_WARNING_PREVIEW_CHARS = 60;
+const SALVAGE_MAX_LINES = 40;
+const EMPTY_OPEN_THREADS_LINE = "- (none)";
+const DEFAULT_NEXT_ACTION_LINE = "1. Continue from the latest user request and retained recent context.";
+
+/** Words that carry no identity for near-duplicate matching; file paths and identifiers are kept whole. */
+const SIMILARITY_STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"has",
+	"have",
+	"in",
+	"is",
+	"it",
+	"its",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"were",
+	"with",
+]);
+const SIMILARITY_MIN_SHARED_TOKENS = 2;
+/**
+ * Negations and state words: two lines that differ in one of these ("tests fail" / "tests pass") state
+ * different facts, however many other tokens they share. Stemmed like `similarityTokens()` output, which
+ * also folds "cannot" and contractions such as "don't" into `not`.
+ */
+const SIMILARITY_STATE_WORDS = [
+	"not",
+	"no",
+	"never",
+	"without",
+	"fail",
+	"fails",
+	"pass",
+	"passes",
+	"broken",
+	"works",
+	"fixed",
+	"error",
+	"success",
+	"enabled",
+	"disabled",
+	"off",
+	"true",
+	"false",
+	"added",
+	"removed",
+	"open",
+	"closed",
+	"before",
+	"after",
+];
+
+const IMAGE_TOKEN_ESTIMATE = 1_200;
+const CJK_CHAR_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const CODE_SYMBOL_RE = /[{}()[\];=<>:"'`|&*/\\+\-_.,$#@!?%^~]/g;
+const PROSE_SYMBOL_RATIO = 0.04;
+const CODE_SYMBOL_RATIO = 0.14;
+const OPTIONAL_TOKENIZER_MODULE = "js-tiktoken";
+const TIKTOKEN_MARGIN = 0.03;
+
+/**
+ * Rough chars-per-token ratios per provider family for English prose and source code. They are not
+ * calibrated against the providers' tokenizers: OpenAI's documented ~4 chars per English token is the
+ * starting point, with denser ratios for code and for Anthropic's tokenizer. `margin` is a deliberately
+ * wide error bound reported next to heuristic estimates.
+ */
+const HEURISTIC_TOKEN_PROFILES: HeuristicTokenProfile[] = [
+	{ family: "anthropic", proseCharsPerToken: 3.6, codeCharsPerToken: 2.9, cjkTokensPerChar: 1.1, margin: 0.15 },
+	{ family: "openai", proseCharsPerToken: 4.2, codeCharsPerToken: 3.4, cjkTokensPerChar: 0.8, margin: 0.12 },
+	{ family: "google", proseCharsPerToken: 4.0, codeCharsPerToken: 3.3, cjkTokensPerChar: 0.9, margin: 0.15 },
+	{ family: "generic", proseCharsPerToken: 3.8, codeCharsPerToken: 3.0, cjkTokensPerChar: 1.0, margin: 0.2 },
+];
+
+const OBSERVER_CHUNK_CONTEXT_RATIO = 0.5;
+const OBSERVER_MIN_CHUNK_TOKENS = 4_000;
 
 const REFLECT_LIMITS_THRESHOLD = {
 	red: 96,
@@ -67,14 +300,86 @@ const REFLECT_LIMITS_FORCED = {
 	green: 8,
 } as const;
 
-type ReflectionMode = "none" | "threshold" | "forced";
+type ReflectionMode = "none" | "threshold" | "forced" | "rebuild";
+/** Maximum observations per priority kept by the deterministic reflection pass (pinned ones excluded). */
+type ReflectorCaps = Record<ObservationPriority, number>;
+type AgentMessage = Parameters<typeof estimateTokens>[0];
+type CompactionEntry = Extract<SessionEntry, { type: "compaction" }>;
+type DumpFormat = "markdown" | "json";
 type ObservationPriority = "red" | "yellow" | "green";
 type AutoCompactionMode = "buffered" | "blocking";
+type ModelRole = "observer" | "reflector";
+type ConfigScope = "global" | "project";
+
+type ConfigLayer = "default" | "global" | "project" | "flag" | "runtime";
+type OverrideLayer = Exclude<ConfigLayer, "default">;
+
+interface ObservationalMemorySettings {
+	autoCompact: boolean;
+	mode: AutoCompactionMode;
+	observerThreshold: number;
+	reflectorThreshold: number;
+	retainRawTail: number;
+	dedupeSimilarity: number;
+	projectMemory: boolean;
+	projectMemoryBudget: number;
+	/** Caps for threshold-triggered reflection and rebuilds. */
+	reflectorCaps: ReflectorCaps;
+	/** Caps for forced reflection (`/obs-reflect`). */
+	forcedReflectorCaps: ReflectorCaps;
+	/** Append a record per summarizer run to the project's telemetry log. */
+	telemetry: boolean;
+	/** Per-call summarizer timeout in ms; 0 waits for the provider. */
+	summarizerTimeout: number;
+	/** Retries per model after a timeout, transient error or empty output. */
+	summarizerRetries: number;
+	/** Delay before the first retry in ms; doubles for each further retry. */
+	summarizerBackoff: number;
+	observerModels: string[];
+	reflectorModels: string[];
+}
+
+type SettingKey = keyof ObservationalMemorySettings;
+type ObservationalMemoryConfig = Partial<ObservationalMemorySettings>;
+
+type ProviderFamily = "anthropic" | "openai" | "google" | "generic";
+
+interface HeuristicTokenProfile {
+	family: ProviderFamily;
+	proseCharsPerToken: number;
+	codeCharsPerToken: number;
+	cjkTokensPerChar: number;
+	margin: number;
+}
+
+/** Pluggable token counter; tokenizer-backed counters are registered with `registerTokenCounter()`. */
+export interface TokenCounter {
+	/** Label shown in status output, e.g. "tiktoken o200k_base" or "heuristic (anthropic)". */
+	name: string;
+	/** Relative error bound of `count()` (0.15 = ±15%). */
+	margin: number;
+	supports(model: Model<any> | undefined): boolean;
+	count(text: string): number;
+}
+
+interface ResolvedRoleModel {
+	model: Model<any>;
+	apiKey: string;
+	chainIndex: number;
+}
+
+interface RoleModelResolution {
+	resolved?: ResolvedRoleModel;
+	/** Every usable chain entry in order, `resolved` first; summarizer calls fall back along it. */
+	candidates: ResolvedRoleModel[];
+	failures: string[];
+}
 
 interface ObservationalCompactionDetails {
 	schemaVersion: number;
 	strategy: "observational-memory";
 	model: string;
+	modelRole: ModelRole;
 	observationCount: number;
 	observationCountBefore: number;
 	observationCountAfter: number;
@@ -84,6 +389,28 @@ interface ObservationalCompactionDetails {
 	generatedAt: string;
 	isSplitTurn: boolean;
 	usedPreviousSummary: boolean;
+	rebuildChunkCount?: number;
+	observerChunkCount?: number;
+	reflectorModel?: string;
+	observationsDroppedByLlm?: number;
+	observationsDroppedByHeuristic?: number;
+	/** Lines the heuristic pass collapsed into a similar, higher-priority or more recent observation. */
+	observationsMergedAsNearDuplicates?: number;
+	llmReflectorError?: string;
+	/** Manual edits (`/obs-add`, `/obs-edit`, `/obs-forget`) applied by this compaction. */
+	memoryEditsApplied?: number;
+	pinnedCount?: number;
+	/** Pinned observations that were missing from the observer/reflector output and were added back. */
+	pinsReinjected?: number;
+	/** Observer and reflector calls of this compaction, retries and chunks included. */
+	usage?: SummarizerUsage;
+	/** Every observer and reflector call attempt, in order. */
+	attempts?: SummarizerAttempt[];
+	/** Validation warnings of observer/reflector outputs that broke the format (capped at 20). */
+	formatWarnings?: string[];
+	formatRepair?: SummaryRepair;
+	/** Structured observation records (schemaVersion >= 3); the summary Observations section is rendered from them. */
+	observations?: ObservationRecord[];
 }
 
 interface ObservationalBranchSummaryDetails {
@@ -93,6 +420,10 @@ interface ObservationalBranchSummaryDetails {
 	observationCount: number;
 	generatedAt: string;
 	entryCount: number;
+	usage?: SummarizerUsage;
+	attempts?: SummarizerAttempt[];
+	formatWarnings?: string[];
+	formatRepair?: SummaryRepair;
 }
 
 interface ParsedObservation {
@@ -100,267 +431,1187 @@ interface ParsedObservation {
 	body: string;
 	key: string;
 	index: number;
+	date?: string;
+	time?: string;
+	sources?: string[];
 }
 
-interface ReflectionResult {
-	summary: string;
-	before: number;
-	after: number;
-	dropped: number;
+interface ObservationRecord {
+	/** Stable across compactions: reused whenever a later compaction emits the same observation again. */
+	id: string;
+	priority: ObservationPriority;
+	body: string;
+	/** `Date:` header the observation was listed under, if any. */
+	date?: string;
+	/** `HH:mm` prefix of the observation line, if any. */
+	time?: string;
+	/** ISO time of the compaction that first recorded the observation. */
+	createdAt: string;
+	/**
+	 * Compaction entry ids. Omitted when they refer to the compaction storing the record, because entry ids
+	 * are assigned after details are written; `readObservationRecords()` fills them in.
+	 */
+	createdIn?: string;
+	lastConfirmedIn?: string;
+	/** Session entry ids the observer cited for this observation (`[src: ...]` tags in its output). */
+	sources?: string[];
+	/** Set when the observation was pinned at the time of the compaction. */
+	pinned?: boolean;
 }
 
-function buildModelRef(model: Model<any>): string {
-	return `${model.provider}/${model.id}`;
+/**
+ * Observation pinned with `/obs-pin`. The full pin list is appended as one `observational-memory-pins`
+ * custom entry per change; the latest entry on the branch wins.
+ */
+interface PinnedObservation {
+	id: string;
+	priority: ObservationPriority;
+	body: string;
+	date?: string;
+	time?: string;
+	sources?: string[];
+	pinnedAt: string;
 }
 
-function normalizeSummary(raw: string): string {
-	const text = raw.trim();
-	if (text.length === 0) {
-		return [
-			"## Observations",
-			"Date: unknown",
-			"- 🟡 Unable to extract observations from compaction source.",
-			"",
-			"## Open Threads",
-			"- Continue from retained recent context.",
-			"",
-			"## Next Action Bias",
-			"1. Continue the latest user request from recent raw context.",
-		].join("\n");
-	}
+/**
+ * Manual memory change from `/obs-add`, `/obs-edit` or `/obs-forget`, stored as one `observational-memory-edits`
+ * custom entry each. `key` is the normalized body of the targeted observation when the command ran.
+ */
+type MemoryEdit =
+	| { op: "add"; id: string; priority: ObservationPriority; body: string; date: string; time: string; at: string }
+	| { op: "edit"; id: string; key: string; priority: ObservationPriority; body: string; at: string }
+	| { op: "forget"; id?: string; key?: string; pattern?: string; at: string };
+
+/** Durable observation shared by every session on a project; see `PROJECT_MEMORY_FILE_NAME`. */
+interface ProjectMemoryObservation {
+	id: string;
+	priority: ObservationPriority;
+	body: string;
+	firstSeenAt: string;
+	lastSeenAt: string;
+	/** Compactions (across all sessions) that emitted the observation. */
+	seenCount: number;
+	lastSessionId?: string;
+}
 
-	if (text.includes("## Observations") && text.includes("## Open Threads") && text.includes("## Next Action Bias")) {
-		return text;
-	}
+/** Versioned project memory file; bump `PROJECT_MEMORY_SCHEMA_VERSION` on breaking changes. */
+interface ProjectMemoryStore {
+	schema: typeof PROJECT_MEMORY_SCHEMA;
+	schemaVersion: number;
+	updatedAt: string;
+	observations: ProjectMemoryObservation[];
+}
 
-	return [
-		"## Observations",
-		"Date: unknown",
-		"- 🟡 Model returned non-standard output; preserving raw output below.",
-		"",
-		"## Open Threads",
-		"- Continue from retained recent context.",
-		"",
-		"## Next Action Bias",
-		"1. Continue the latest user request from recent raw context.",
-		"",
-		"## Raw Observer Output",
-		text,
-	].join("\n");
+type MemorySearchKind = "observation" | "open-thread" | "next-action" | "read-file" | "modified-file" | "details";
+
+/** One searchable line of a compaction or branch summary. */
+interface MemorySearchDocument {
+	kind: MemorySearchKind;
+	text: string;
+	priority?: ObservationPriority;
+	date?: string;
+	time?: string;
 }
 
-function countObservationLines(summary: string): number {
-	const matches = summary.match(/^\s*-\s*[🔴🟡🟢]\s+/gmu);
-	return matches?.length ?? 0;
+interface MemorySearchHit extends MemorySearchDocument {
+	entryId: string;
+	entryType: "compaction" | "branch_summary";
+	timestamp: string;
+	score: number;
+	/** Searched entries that contain the same line; the hit is the newest of them. */
+	occurrences: number;
+	/** Whether the line is still in the latest compaction of the current branch. */
+	active: boolean;
 }
 
-function estimateTextTokens(text: string): number {
-	if (!text.trim()) return 0;
-	return Math.ceil(text.length / 4);
+type CompactionDiffSection = "observations" | "open-threads" | "read-files" | "modified-files";
+
+/** One line that differs between two compactions; `edited` keeps the record id but changes the text. */
+interface CompactionDiffLine {
+	section: CompactionDiffSection;
+	change: "added" | "removed" | "edited" | "priority";
+	text: string;
+	priority?: ObservationPriority;
+	previousText?: string;
+	previousPriority?: ObservationPriority;
 }
 
-function formatTokenCount(tokens: number): string {
-	return `${tokens.toLocaleString()} tokens`;
+interface CompactionDiff {
+	from: { id: string; timestamp: string; observations: number };
+	to: { id: string; timestamp: string; observations: number };
+	lines: CompactionDiffLine[];
+	unchanged: number;
 }
 
-function parseTokenCount(
-	input: string,
-	options: {
-		min?: number;
-		max?: number;
-		allowZero?: boolean;
-	} = {},
-): number | undefined {
-	const min = options.min ?? AUTO_TOKENS_MIN;
-	const max = options.max ?? AUTO_TOKENS_MAX;
-	const allowZero = options.allowZero ?? false;
+/** Token usage and cost summed over summarizer calls, retries included. */
+type SummarizerUsage = ObservationMemoryUsage;
 
-	const raw = input.trim().toLowerCase().replaceAll(",", "").replaceAll("_", "");
-	if (raw.length === 0) return undefined;
+/** Timeout, retry and backoff settings applied to every summarizer call. */
+interface SummarizerPolicy {
+	timeoutMs: number;
+	retries: number;
+	backoffMs: number;
+}
 
-	let multiplier = 1;
-	let numericPart = raw;
-	if (raw.endsWith("k")) {
-		multiplier = 1_000;
-		numericPart = raw.slice(0, -1);
-	} else if (raw.endsWith("m")) {
-		multiplier = 1_000_000;
-		numericPart = raw.slice(0, -1);
-	}
+type SummarizerRole = ModelRole | "tree";
 
-	if (numericPart.length === 0) return undefined;
-	const numeric = Number(numericPart);
-	if (!Number.isFinite(numeric) || numeric < 0) {
-		return undefined;
-	}
+/**
+ * A summarizer run that ended without a summary of ours (pi's default took over, or a rebuild was
+ * cancelled), stored as a custom entry so its attempts are kept even without details or telemetry.
+ */
+interface SummarizerFailure {
+	kind: TelemetryKind;
+	at: string;
+	error: string;
+	attempts: SummarizerAttempt[];
+}
 
-	const tokens = Math.round(numeric * multiplier);
-	if (!allowZero && tokens <= 0) {
-		return undefined;
-	}
-	if (allowZero && tokens === 0) {
-		return 0;
-	}
-	if (tokens < min || tokens > max) {
-		return undefined;
-	}
+/** One summarizer call attempt, as notified and stored in details `attempts`. */
+interface SummarizerAttempt {
+	role: SummarizerRole;
+	model: string;
+	/** 1-based attempt number on this model within one call. */
+	attempt: number;
+	outcome: "ok" | "empty" | "timeout" | "error";
+	latencyMs: number;
+	error?: string;
+	/** After a failed attempt: retry the same model, fall back to the next one, or give up. */
+	next?: "retry" | "fallback" | "give-up";
+	retryInMs?: number;
+}
 
-	return tokens;
+/** How far a summarizer output had to be repaired to pass `validateSummary()`. */
+type SummaryRepair = "deterministic" | "model" | "salvaged";
+
+/** Format problems found in a stage's outputs and the strongest repair they needed. */
+interface SummaryFormatReport {
+	warnings: string[];
+	repair?: SummaryRepair;
 }
 
-function parseAutoCompactionMode(token: string): AutoCompactionMode | undefined {
-	const normalized = token.trim().toLowerCase();
-	if (["buffered", "buffer", "bg", "background", "async", "auto"].includes(normalized)) {
-		return "buffered";
-	}
-	if (["blocking", "sync", "manual"].includes(normalized)) {
-		return "blocking";
-	}
-	return undefined;
+/** Usage, attempts and format repairs of one summarizer stage; the caller owns it so all of them can go into details. */
+interface SummarizerLedger {
+	usage: SummarizerUsage;
+	attempts: SummarizerAttempt[];
+	format: SummaryFormatReport;
 }
 
-function parseEnabledToken(token: string): boolean | undefined {
-	const normalized = token.trim().toLowerCase();
-	if (["on", "enable", "enabled", "true", "1"].includes(normalized)) return true;
-	if (["off", "disable", "disabled", "false", "0"].includes(normalized)) return false;
-	return undefined;
+/** Everything a summarizer call needs: candidate models in fallback order, the policy, and the ledger it writes to. */
+interface SummarizerRun extends SummarizerLedger {
+	role: SummarizerRole;
+	models: ResolvedRoleModel[];
+	/** Chain entries that could not be used, for error messages. */
+	failures: string[];
+	policy: SummarizerPolicy;
+	/** Model that answered the last call; later calls of the run start with it. */
+	current?: ResolvedRoleModel;
+	onAttempt?: (attempt: SummarizerAttempt) => void;
+	/** Called when an output needed repair, with that output's validation warnings. */
+	onRepair?: (repair: SummaryRepair, warnings: string[]) => void;
 }
 
-function parseRetainRawTailTokenCount(token: string): number | undefined {
-	const normalized = token.trim().toLowerCase();
-	if (["off", "none", "disable", "disabled", "false"].includes(normalized)) return 0;
-	return parseTokenCount(token, {
-		min: 0,
-		max: AUTO_TOKENS_MAX,
-		allowZero: true,
-	});
+type TelemetryKind = "observer" | "reflector" | "tree";
+/** What started the compaction: this extension's observer trigger, a command, or pi itself (threshold, overflow, /compact). */
+type TelemetryTrigger = "observer-trigger" | "reflect" | "rebuild" | "pi" | "tree";
+/** `fallback`: pi's default compaction/summary (or, for the reflector, the heuristic pass alone) was used instead. */
+type TelemetryOutcome = "success" | "fallback" | "cancelled" | "aborted";
+
+/** One line of `.pi/observational-memory/telemetry.jsonl`. */
+interface TelemetryRecord {
+	schema: typeof TELEMETRY_SCHEMA;
+	schemaVersion: number;
+	at: string;
+	sessionId: string;
+	kind: TelemetryKind;
+	trigger: TelemetryTrigger;
+	outcome: TelemetryOutcome;
+	model?: string;
+	latencyMs: number;
+	/** Provider-reported usage summed over every call of the run. */
+	calls: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** Provider cost estimate in USD. */
+	cost: number;
+	/** Context tokens before compaction (observer runs). */
+	tokensBefore?: number;
+	/** Estimated tokens of the summary that replaced them. */
+	summaryTokens?: number;
+	observationsBefore?: number;
+	observationsAfter?: number;
+	reflectionMode?: ReflectionMode;
+	chunks?: number;
+	error?: string;
+	/** Every summarizer call attempt of the run, present when at least one failed. */
+	attempts?: SummarizerAttempt[];
 }
 
-function shouldIgnoreAutoCompactError(message: string): boolean {
-	return /nothing to compact|already compacted|compaction cancelled/i.test(message);
+/** Options for the deterministic reflection pass. */
+interface HeuristicReflectionOptions {
+	similarityThreshold?: number;
+	/** Normalized keys of pinned observations: never capped and never merged into another line. */
+	pinnedKeys?: Set<string>;
+	caps?: ReflectorCaps;
+	forcedCaps?: ReflectorCaps;
 }
 
-function estimateCustomMessageEntryTokens(entry: Extract<SessionEntry, { type: "custom_message" }>): number {
-	let chars = 0;
-	if (typeof entry.content === "string") {
-		chars = entry.content.length;
-	} else {
-		for (const block of entry.content) {
-			if (block.type === "text") {
-				chars += block.text.length;
-			} else if (block.type === "image") {
-				chars += 4800;
-			}
-		}
-	}
-	return Math.ceil(chars / 4);
+/** Versioned export document written by `/obs-dump`; bump `DUMP_SCHEMA_VERSION` on breaking changes. */
+interface ObservationalMemoryDump {
+	schema: typeof DUMP_SCHEMA;
+	schemaVersion: number;
+	exportedAt: string;
+	sessionId: string;
+	compaction: {
+		id: string;
+		timestamp: string;
+		tokensBefore: number;
+		firstKeptEntryId: string;
+		fromExtension: boolean;
+	};
+	details: ObservationalCompactionDetails | null;
+	observations: ObservationRecord[];
+	openThreads: string[];
+	nextActions: string[];
+	files: {
+		read: string[];
+		modified: string[];
+	};
+	summary: string;
 }
 
-function estimateObservationTokens(summary: string | undefined): number {
-	if (!summary) return 0;
-	return estimateTextTokens(stripFileTags(summary));
+interface ReflectionResult {
+	summary: string;
+	before: number;
+	after: number;
+	dropped: number;
+	merged: number;
 }
 
-function getObserverActivationThreshold(observerTriggerTokens: number, rawTailRetainTokens: number): number {
-	return observerTriggerTokens + rawTailRetainTokens;
+interface ReflectorStageResult extends ReflectionResult {
+	droppedByLlm: number;
+	droppedByHeuristic: number;
+	reflectorModel?: string;
+	llmError?: string;
 }
 
-function estimateRawTailTokens(branchEntries: SessionEntry[]): number {
-	let startIndex = 0;
-	for (let i = branchEntries.length - 1; i >= 0; i--) {
-		if (branchEntries[i].type === "compaction") {
-			startIndex = i + 1;
-			break;
-		}
-	}
+function buildModelRef(model: Model<any>): string {
+	return `${model.provider}/${model.id}`;
+}
 
-	let totalTokens = 0;
-	for (let i = startIndex; i < branchEntries.length; i++) {
-		const entry = branchEntries[i];
-		switch (entry.type) {
-			case "message":
-				totalTokens += estimateTokens(entry.message);
-				break;
-			case "custom_message":
-				totalTokens += estimateCustomMessageEntryTokens(entry);
-				break;
-			case "branch_summary":
-				totalTokens += estimateTextTokens(stripFileTags(entry.summary));
-				break;
-			default:
-				break;
+function formatModelChain(chain: readonly string[]): string {
+	return chain.join(" → ");
+}
+
+function parseModelChain(input: string): string[] | undefined {
+	const entries = input
+		.split(/[\s,]+/)
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+	if (entries.length === 0) return undefined;
+
+	const chain: string[] = [];
+	for (const entry of entries) {
+		if (entry.toLowerCase() === ACTIVE_MODEL_REF) {
+			chain.push(ACTIVE_MODEL_REF);
+			continue;
 		}
+		const slashIndex = entry.indexOf("/");
+		if (slashIndex <= 0 || slashIndex === entry.length - 1) return undefined;
+		chain.push(entry);
 	}
-
-	return totalTokens;
+	return [...new Set(chain)];
 }
 
-function parseTaggedFiles(summary: string | undefined, tag: "read-files" | "modified-files"): Set<string> {
-	if (!summary) return new Set<string>();
-	const regex = new RegExp(`<${tag}>\\n([\\s\\S]*?)\\n<\\/${tag}>`, "m");
-	const match = summary.match(regex);
-	if (!match?.[1]) return new Set<string>();
-	return new Set(
-		match[1]
-			.split("\n")
-			.map((line) => line.trim())
-			.filter((line) => line.length > 0),
-	);
+function parseModelRole(token: string): ModelRole | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["observer", "obs", "observe"].includes(normalized)) return "observer";
+	if (["reflector", "reflect", "reflection"].includes(normalized)) return "reflector";
+	return undefined;
 }
 
-function stripFileTags(summary: string): string {
-	return summary
-		.replace(/\n?<read-files>\n[\s\S]*?\n<\/read-files>/gm, "")
-		.replace(/\n?<modified-files>\n[\s\S]*?\n<\/modified-files>/gm, "")
-		.trim();
-}
+/**
+ * Resolve a role's chain. `failures` explains the entries skipped before the first usable one
+ * (all of them when none is usable); later unusable entries are simply left out of `candidates`.
+ */
+async function resolveRoleModel(ctx: ExtensionContext, chain: readonly string[]): Promise<RoleModelResolution> {
+	const failures: string[] = [];
+	const candidates: ResolvedRoleModel[] = [];
+	const skip = (reason: string) => {
+		if (candidates.length === 0) failures.push(reason);
+	};
 
-function formatFileOperations(fileOps: FileOperations, previousSummary?: string): string {
-	const previousRead = parseTaggedFiles(previousSummary, "read-files");
-	const previousModified = parseTaggedFiles(previousSummary, "modified-files");
+	for (let chainIndex = 0; chainIndex < chain.length; chainIndex++) {
+		const entry = chain[chainIndex];
+		let model: Model<any> | undefined;
+		if (entry === ACTIVE_MODEL_REF) {
+			model = ctx.model;
+			if (!model) {
+				skip(`${ACTIVE_MODEL_REF}: no active model`);
+				continue;
+			}
+		} else {
+			const slashIndex = entry.indexOf("/");
+			model = ctx.modelRegistry.find(entry.slice(0, slashIndex), entry.slice(slashIndex + 1));
+			if (!model) {
+				skip(`${entry}: not found in model registry`);
+				continue;
+			}
+		}
 
-	const currentModified = new Set<string>([...fileOps.edited, ...fileOps.written]);
-	const currentRead = new Set<string>([...fileOps.read].filter((filePath) => !currentModified.has(filePath)));
+		if (candidates.some((candidate) => candidate.model === model)) continue;
+		const apiKey = await ctx.modelRegistry.getApiKey(model);
+		if (!apiKey) {
+			skip(`${buildModelRef(model)}: missing API key`);
+			continue;
+		}
 
-	const modified = new Set<string>([...previousModified, ...currentModified]);
-	const read = new Set<string>([...previousRead, ...currentRead]);
-	for (const filePath of modified) {
-		read.delete(filePath);
+		candidates.push({ model, apiKey, chainIndex });
 	}
 
-	const readFiles = [...read].sort();
-	const modifiedFiles = [...modified].sort();
-
-	const sections: string[] = [];
-	if (readFiles.length > 0) {
-		sections.push(`<read-files>\n${readFiles.join("\n")}\n</read-files>`);
-	}
-	if (modifiedFiles.length > 0) {
-		sections.push(`<modified-files>\n${modifiedFiles.join("\n")}\n</modified-files>`);
-	}
-	if (sections.length === 0) return "";
-	return `\n\n${sections.join("\n\n")}`;
+	return { resolved: candidates[0], candidates, failures };
 }
 
-function extractSection(summary: string, heading: string, nextHeading?: string): string {
-	const start = summary.indexOf(heading);
-	if (start === -1) return "";
-
-	let content = summary.slice(start + heading.length);
-	content = content.replace(/^\s*\n/, "");
-
-	if (!nextHeading) {
-		return content.trim();
-	}
+function getConfigPath(scope: ConfigScope, cwd: string): string {
+	return scope === "global" ? join(getAgentDir(), CONFIG_FILE_NAME) : join(cwd, ".pi", CONFIG_FILE_NAME);
+}
 
-	const end = content.indexOf(nextHeading);
-	if (end === -1) {
-		return content.trim();
-	}
-	return content.slice(0, end).trim();
+function parseConfigScope(token: string): ConfigScope | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["global", "user", "home"].includes(normalized)) return "global";
+	if (["project", "local", "repo"].includes(normalized)) return "project";
+	return undefined;
 }
 
-function priorityFromEmoji(emoji: string): ObservationPriority {
+function createDefaultSettings(): ObservationalMemorySettings {
+	return {
+		autoCompact: true,
+		mode: DEFAULT_OBS_MODE,
+		observerThreshold: DEFAULT_OBSERVER_TRIGGER_TOKENS,
+		reflectorThreshold: DEFAULT_REFLECTOR_TRIGGER_TOKENS,
+		retainRawTail: DEFAULT_RAW_TAIL_RETAIN_TOKENS,
+		dedupeSimilarity: DEFAULT_DEDUPE_SIMILARITY,
+		projectMemory: DEFAULT_PROJECT_MEMORY_ENABLED,
+		projectMemoryBudget: DEFAULT_PROJECT_MEMORY_BUDGET,
+		reflectorCaps: { ...REFLECT_LIMITS_THRESHOLD },
+		forcedReflectorCaps: { ...REFLECT_LIMITS_FORCED },
+		telemetry: DEFAULT_TELEMETRY_ENABLED,
+		summarizerTimeout: DEFAULT_SUMMARIZER_TIMEOUT_MS,
+		summarizerRetries: DEFAULT_SUMMARIZER_RETRIES,
+		summarizerBackoff: DEFAULT_SUMMARIZER_BACKOFF_MS,
+		observerModels: [...DEFAULT_MODEL_CHAIN],
+		reflectorModels: [...DEFAULT_MODEL_CHAIN],
+	};
+}
+
+/**
+ * Validate one config layer (file, flags, or persisted runtime overrides) with the same
+ * parsers the commands use. Invalid keys are reported and left out of the layer.
+ */
+function validateConfig(raw: Record<string, unknown>): {
+	config: ObservationalMemoryConfig;
+	invalid: Array<{ key: SettingKey; value: unknown }>;
+} {
+	const config: ObservationalMemoryConfig = {};
+	const invalid: Array<{ key: SettingKey; value: unknown }> = [];
+
+	for (const key of SETTING_KEYS) {
+		const value = raw[key];
+		if (value === undefined) continue;
+		const text = typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+
+		switch (key) {
+			case "autoCompact":
+			case "projectMemory":
+			case "telemetry": {
+				const parsed = typeof value === "boolean" ? value : text !== undefined ? parseEnabledToken(text) : undefined;
+				if (parsed !== undefined) {
+					config[key] = parsed;
+					continue;
+				}
+				break;
+			}
+			case "mode": {
+				const parsed = text !== undefined ? parseAutoCompactionMode(text) : undefined;
+				if (parsed) {
+					config.mode = parsed;
+					continue;
+				}
+				break;
+			}
+			case "observerThreshold":
+			case "reflectorThreshold": {
+				const parsed = text !== undefined ? parseTokenCount(text) : undefined;
+				if (parsed !== undefined) {
+					config[key] = parsed;
+					continue;
+				}
+				break;
+			}
+			case "retainRawTail": {
+				const parsed = text !== undefined ? parseRetainRawTailTokenCount(text) : undefined;
+				if (parsed !== undefined) {
+					config.retainRawTail = parsed;
+					continue;
+				}
+				break;
+			}
+			case "projectMemoryBudget": {
+				const parsed = text !== undefined ? parseProjectMemoryBudget(text) : undefined;
+				if (parsed !== undefined) {
+					config.projectMemoryBudget = parsed;
+					continue;
+				}
+				break;
+			}
+			case "reflectorCaps":
+			case "forcedReflectorCaps": {
+				const caps =
+					value && typeof value === "object" && !Array.isArray(value)
+						? formatReflectorCaps(value as ReflectorCaps)
+						: text;
+				const parsed = caps !== undefined ? parseReflectorCaps(caps) : undefined;
+				if (parsed) {
+					config[key] = parsed;
+					continue;
+				}
+				break;
+			}
+			case "summarizerTimeout":
+			case "summarizerBackoff": {
+				const parsed = text !== undefined ? parseDuration(text) : undefined;
+				if (parsed !== undefined) {
+					config[key] = parsed;
+					continue;
+				}
+				break;
+			}
+			case "summarizerRetries": {
+				const parsed = text !== undefined ? parseRetryCount(text) : undefined;
+				if (parsed !== undefined) {
+					config.summarizerRetries = parsed;
+					continue;
+				}
+				break;
+			}
+			case "dedupeSimilarity": {
+				const parsed = text !== undefined ? parseSimilarityThreshold(text) : undefined;
+				if (parsed !== undefined) {
+					config.dedupeSimilarity = parsed;
+					continue;
+				}
+				break;
+			}
+			case "observerModels":
+			case "reflectorModels": {
+				const parsed = Array.isArray(value)
+					? parseModelChain(value.filter((item): item is string => typeof item === "string").join(","))
+					: text !== undefined
+						? parseModelChain(text)
+						: undefined;
+				if (parsed) {
+					config[key] = parsed;
+					continue;
+				}
+				break;
+			}
+		}
+
+		invalid.push({ key, value });
+	}
+
+	return { config, invalid };
+}
+
+function resolveLayeredSettings(layers: Record<OverrideLayer, ObservationalMemoryConfig>): {
+	values: ObservationalMemorySettings;
+	sources: Record<SettingKey, ConfigLayer>;
+} {
+	const values = createDefaultSettings();
+	const sources = Object.fromEntries(SETTING_KEYS.map((key) => [key, "default"])) as Record<SettingKey, ConfigLayer>;
+
+	for (const layer of OVERRIDE_LAYERS) {
+		for (const key of SETTING_KEYS) {
+			const value = layers[layer][key];
+			if (value === undefined) continue;
+			(values as Record<SettingKey, unknown>)[key] = Array.isArray(value) ? [...value] : value;
+			sources[key] = layer;
+		}
+	}
+
+	return { values, sources };
+}
+
+function readConfigFile(path: string): { config: ObservationalMemoryConfig; error?: string } {
+	if (!existsSync(path)) return { config: {} };
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { config: {}, error: `${path}: ${message}` };
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return { config: {}, error: `${path}: expected a JSON object` };
+	}
+
+	const { config, invalid } = validateConfig(parsed as Record<string, unknown>);
+	const error =
+		invalid.length > 0
+			? `${path}: invalid ${invalid.map((item) => `${item.key}=${JSON.stringify(item.value)}`).join(", ")}`
+			: undefined;
+	return { config, error };
+}
+
+function parseSaveToken(token: string): ConfigScope | "invalid" | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (normalized === "save") return "project";
+	if (!normalized.startsWith("save=")) return undefined;
+	return parseConfigScope(normalized.slice("save=".length)) ?? "invalid";
+}
+
+function writeConfigFile(path: string, patch: ObservationalMemoryConfig): void {
+	let existing: Record<string, unknown> = {};
+	if (existsSync(path)) {
+		const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			existing = parsed as Record<string, unknown>;
+		}
+	}
+
+	mkdirSync(dirname(path), { recursive: true });
+	writeFileSync(path, `${JSON.stringify({ ...existing, ...patch }, null, "\t")}\n`, "utf-8");
+}
+
+function clipFormatPreview(line: string): string {
+	return line.length > FORMAT_WARNING_PREVIEW_CHARS ? `${line.slice(0, FORMAT_WARNING_PREVIEW_CHARS)}…` : line;
+}
+
+function capFormatWarnings(warnings: string[]): string[] {
+	return warnings.length > FORMAT_WARNINGS_MAX
+		? [...warnings.slice(0, FORMAT_WARNINGS_MAX - 1), `… ${warnings.length - FORMAT_WARNINGS_MAX + 1} more`]
+		: warnings;
+}
+
+/**
+ * Strict check of the observer output format: the three sections once each and in order, only
+ * `Date:` headers and single-line emoji bullets under Observations, `- ` bullets under Open Threads,
+ * and next actions numbered 1, 2, 3…. Returns one warning per problem, with its line number.
+ */
+function validateSummary(text: string): string[] {
+	const warnings: string[] = [];
+	const seen: string[] = [];
+	let section = -1;
+	let nextActionNumber = 0;
+
+	for (const [index, rawLine] of text.trim().split("\n").entries()) {
+		const line = rawLine.trim();
+		if (!line) continue;
+		const at = `line ${index + 1}`;
+
+		if (line.startsWith("#")) {
+			const sectionIndex = (SUMMARY_SECTIONS as readonly string[]).indexOf(line);
+			if (sectionIndex === -1) {
+				warnings.push(`${at}: unexpected heading "${clipFormatPreview(line)}"`);
+				section = -2;
+			} else if (seen.includes(line)) {
+				warnings.push(`${at}: duplicate ${line}`);
+				section = sectionIndex;
+			} else {
+				if (sectionIndex !== seen.length) warnings.push(`${at}: ${line} out of order`);
+				seen.push(line);
+				section = sectionIndex;
+			}
+			continue;
+		}
+
+		if (section === -1) {
+			warnings.push(`${at}: text before ## Observations: "${clipFormatPreview(line)}"`);
+		} else if (section === -2) {
+			warnings.push(`${at}: text under an unexpected heading: "${clipFormatPreview(line)}"`);
+		} else if (section === 0) {
+			if (DATE_HEADER_RE.test(line) || OBSERVATION_BULLET_RE.test(rawLine.trimEnd())) continue;
+			warnings.push(
+				/^[-*+•]\s/.test(line)
+					? `${at}: observation without a 🔴/🟡/🟢 priority: "${clipFormatPreview(line)}"`
+					: `${at}: not a Date header or observation bullet: "${clipFormatPreview(line)}"`,
+			);
+		} else if (section === 1) {
+			if (!/^- \S/.test(line)) warnings.push(`${at}: open thread is not a "- " bullet: "${clipFormatPreview(line)}"`);
+		} else {
+			const match = line.match(/^(\d+)\. \S/);
+			nextActionNumber++;
+			if (!match) {
+				warnings.push(`${at}: next action is not a numbered item: "${clipFormatPreview(line)}"`);
+			} else if (Number(match[1]) !== nextActionNumber) {
+				warnings.push(`${at}: next action numbered ${match[1]}, expected ${nextActionNumber}`);
+			}
+		}
+	}
+
+	for (const heading of SUMMARY_SECTIONS) {
+		if (!seen.includes(heading)) warnings.push(`missing ${heading}`);
+	}
+	return warnings;
+}
+
+/** Section index (0-2) for a heading the models commonly drift to, -1 for any other markdown heading. */
+function matchSectionHeading(line: string): number | undefined {
+	const isMarkdownHeading = /^#{1,6}\s/.test(line);
+	const name = line
+		.replace(/^#{1,6}\s*/, "")
+		.replace(/^\*\*(.*)\*\*$/, "$1")
+		.replace(/:$/, "")
+		.trim()
+		.toLowerCase();
+	if (/^observations?(?: log)?$/.test(name)) return 0;
+	if (/^open (?:threads?|questions|items)$/.test(name)) return 1;
+	if (/^next (?:action bias|actions?|steps)$/.test(name)) return 2;
+	return isMarkdownHeading ? -1 : undefined;
+}
+
+/** `Date: 2025-01-31`, `**Date:** 2025-01-31`, `### 2025-01-31` → `Date: 2025-01-31`. */
+function repairDateHeader(line: string): string | undefined {
+	const text = line
+		.replace(/^#{1,6}\s*/, "")
+		.replaceAll("*", "")
+		.replaceAll("_", " ")
+		.trim();
+	const match =
+		text.match(/^(?:date\s*[:-]?\s*)?(\d{4}-\d{2}-\d{2})\s*:?$/i) ?? text.match(/^date\s*[:-]?\s*(unknown)$/i);
+	return match ? `Date: ${match[1].toLowerCase()}` : undefined;
+}
+
+/**
+ * Priority markers: the emoji, or a priority word only when bracketed (`[high]`, `[high]:`) or followed by
+ * `:` (`high: …`), so text that merely starts with one (`Redis …`, `Information …`) is left alone.
+ */
+const PRIORITY_ALIASES: Array<[RegExp, string]> = [
+	[/^(?:🔴\s*|\[(?:red|critical|high)\]:?\s*|(?:red|critical|high):\s+)/iu, "🔴"],
+	[/^(?:(?:🟡|🟠)\s*|\[(?:yellow|important|medium)\]:?\s*|(?:yellow|important|medium):\s+)/iu, "🟡"],
+	[/^(?:🟢\s*|\[(?:green|info|informational|low)\]:?\s*|(?:green|info|informational|low):\s+)/iu, "🟢"],
+];
+
+/**
+ * Coerce one Observations line into `- <emoji> [HH:mm ]text`: any bullet or number marker, priority
+ * words or bracketed emoji, and `[HH:mm]` / `HH:mm -` time prefixes. A bullet without a priority
+ * becomes 🟡; a line with neither marker nor priority returns undefined (a wrapped continuation).
+ */
+function repairObservationLine(line: string): string | undefined {
+	const marker = line.match(/^(?:[-*+•]|\d+[.)])\s+/);
+	let text = (marker ? line.slice(marker[0].length) : line).trim().replace(/^[[(](🔴|🟡|🟢)[\])]/u, "$1");
+	let emoji: string | undefined;
+	for (const [pattern, priority] of PRIORITY_ALIASES) {
+		const match = text.match(pattern);
+		if (!match) continue;
+		emoji = priority;
+		text = text.slice(match[0].length).trim();
+		break;
+	}
+	if (!emoji && !marker) return undefined;
+
+	const time = text.match(/^\[?(\d{1,2}:\d{2})\]?\s*[-–:]?\s+/);
+	if (time) text = text.slice(time[0].length).trim();
+	if (!text) return undefined;
+	return `- ${emoji ?? "🟡"} ${time ? `${time[1].padStart(5, "0")} ` : ""}${text}`;
+}
+
+/**
+ * Deterministic repair: canonical headings in canonical order, Date headers and observation bullets
+ * coerced with `repairObservationLine()` (wrapped lines joined back), thread bullets re-marked and next
+ * actions renumbered; missing Open Threads / Next Action Bias get placeholders. Emoji bullets found
+ * outside the sections are kept under `Date: unknown`; other stray text is dropped. Returns undefined
+ * without an Observations heading, when there is nothing to anchor a repair to.
+ */
+function repairSummary(text: string): string | undefined {
+	const sections: string[][] = [[], [], []];
+	const stray: string[] = [];
+	let section: number | undefined;
+	let foundObservations = false;
+
+	for (const rawLine of text.split("\n")) {
+		const line = rawLine.trim();
+		if (!line) continue;
+		const dateHeader = repairDateHeader(line);
+		const heading = dateHeader ? undefined : matchSectionHeading(line);
+		if (heading !== undefined) {
+			section = heading;
+			if (heading === 0) foundObservations = true;
+			continue;
+		}
+		if (section === undefined || section === -1) stray.push(line);
+		else if (section === 0 && dateHeader) sections[0].push(dateHeader);
+		else sections[section].push(line);
+	}
+	if (!foundObservations) return undefined;
+
+	const observations: string[] = [];
+	for (const line of sections[0]) {
+		if (line.startsWith("Date: ")) {
+			observations.push(line);
+			continue;
+		}
+		const repaired = repairObservationLine(line);
+		const last = observations.length - 1;
+		if (repaired) observations.push(repaired);
+		else if (last >= 0 && observations[last].startsWith("- ")) observations[last] = `${observations[last]} ${line}`;
+	}
+	const strayObservations = stray
+		.filter((line) => /(?:🔴|🟡|🟢)/u.test(line.slice(0, 8)))
+		.map(repairObservationLine)
+		.filter((line): line is string => line !== undefined);
+	if (strayObservations.length > 0) observations.push("Date: unknown", ...strayObservations);
+
+	const stripMarker = (line: string) => line.replace(/^(?:[-*+•]|\d+[.)])\s+/, "").trim();
+	const threads = sections[1].map(stripMarker).filter((line) => line.length > 0);
+	const actions = sections[2].map(stripMarker).filter((line) => line.length > 0);
+
+	return [
+		"## Observations",
+		...observations,
+		"",
+		"## Open Threads",
+		...(threads.length > 0 ? threads.map((line) => `- ${line}`) : [EMPTY_OPEN_THREADS_LINE]),
+		"",
+		"## Next Action Bias",
+		...(actions.length > 0 ? actions.map((line, index) => `${index + 1}. ${line}`) : [DEFAULT_NEXT_ACTION_LINE]),
+	].join("\n");
+}
+
+/**
+ * Last resort for output that neither repair could fix: every non-heading line becomes a 🟡
+ * observation (at most 40), so the text stays parseable and later reflections can prune it.
+ */
+function salvageSummary(text: string): string {
+	const lines = text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0 && !line.startsWith("#") && !/^`{3}/.test(line));
+	const bullets = lines
+		.slice(0, SALVAGE_MAX_LINES)
+		.map((line) => repairObservationLine(line) ?? `- 🟡 ${line}`)
+		.filter((line) => line.startsWith("- "));
+	return [
+		"## Observations",
+		"Date: unknown",
+		"- 🟡 Model output did not follow the observation format; salvaged lines follow.",
+		...bullets,
+		...(lines.length > SALVAGE_MAX_LINES
+			? [`- 🟢 ${lines.length - SALVAGE_MAX_LINES} more output lines dropped.`]
+			: []),
+		"",
+		"## Open Threads",
+		"- Continue from retained recent context.",
+		"",
+		"## Next Action Bias",
+		"1. Continue the latest user request from recent raw context.",
+	].join("\n");
+}
+
+/**
+ * The previous summary as the observer should see it. This extension's own summaries go through
+ * `normalizeSummary()`; a legacy one that wrapped unparsed output under `## Raw Observer Output` held
+ * only placeholders around it, so the raw block itself is repaired (or salvaged) instead. Summaries
+ * written by pi's default compaction have their own format and are passed on as they are.
+ */
+function preparePreviousSummary(summary: string, fromExtension: boolean): string {
+	const text = stripFileTags(summary);
+	if (!fromExtension) return text;
+	const rawStart = text.indexOf(LEGACY_RAW_OUTPUT_HEADING);
+	return normalizeSummary(rawStart === -1 ? text : text.slice(rawStart + LEGACY_RAW_OUTPUT_HEADING.length));
+}
+
+/** Deterministic-only normalization: the output itself when valid, else its repair, else a salvage. */
+function normalizeSummary(raw: string): string {
+	const text = raw.trim();
+	if (text.length === 0) {
+		return [
+			"## Observations",
+			"Date: unknown",
+			"- 🟡 Unable to extract observations from compaction source.",
+			"",
+			"## Open Threads",
+			"- Continue from retained recent context.",
+			"",
+			"## Next Action Bias",
+			"1. Continue the latest user request from recent raw context.",
+		].join("\n");
+	}
+
+	if (validateSummary(text).length === 0) return text;
+	const repaired = repairSummary(text);
+	return repaired && validateSummary(repaired).length === 0 ? repaired : salvageSummary(text);
+}
+
+function countObservationLines(summary: string): number {
+	const matches = summary.match(/^\s*-\s*[🔴🟡🟢]\s+/gmu);
+	return matches?.length ?? 0;
+}
+
+function getProviderFamily(model: Model<any> | undefined): ProviderFamily {
+	if (!model) return "generic";
+	if (model.api === "anthropic-messages" || model.provider === "anthropic") return "anthropic";
+	if (model.api.startsWith("openai") || model.api.startsWith("azure-openai")) return "openai";
+	if (model.api.startsWith("google")) return "google";
+	return "generic";
+}
+
+function createHeuristicTokenCounter(profile: HeuristicTokenProfile): TokenCounter {
+	return {
+		name: `heuristic (${profile.family})`,
+		margin: profile.margin,
+		supports: (model) => getProviderFamily(model) === profile.family,
+		count: (text) => {
+			if (!text.trim()) return 0;
+			const cjkChars = text.match(CJK_CHAR_RE)?.length ?? 0;
+			const otherChars = text.length - cjkChars;
+			const symbolRatio = otherChars > 0 ? (text.match(CODE_SYMBOL_RE)?.length ?? 0) / otherChars : 0;
+			// Interpolate between the prose and code ratios by punctuation density.
+			const codeWeight = Math.min(
+				1,
+				Math.max(0, (symbolRatio - PROSE_SYMBOL_RATIO) / (CODE_SYMBOL_RATIO - PROSE_SYMBOL_RATIO)),
+			);
+			const charsPerToken =
+				profile.proseCharsPerToken + (profile.codeCharsPerToken - profile.proseCharsPerToken) * codeWeight;
+			return Math.ceil(cjkChars * profile.cjkTokensPerChar + otherChars / charsPerToken);
+		},
+	};
+}
+
+const heuristicTokenCounters = HEURISTIC_TOKEN_PROFILES.map(createHeuristicTokenCounter);
+const tokenizerCounters: TokenCounter[] = [];
+let optionalTokenizersLoaded: Promise<void> | undefined;
+
+/**
+ * Register a tokenizer-backed counter; later registrations take precedence. Exported so another extension
+ * in the same pi process can add a tokenizer for its providers.
+ */
+export function registerTokenCounter(counter: TokenCounter): void {
+	tokenizerCounters.unshift(counter);
+}
+
+/** Load tokenizers from optional packages when they are installed; missing packages keep the heuristics. */
+function loadOptionalTokenizers(): Promise<void> {
+	optionalTokenizersLoaded ??= (async () => {
+		try {
+			const tiktoken = (await import(OPTIONAL_TOKENIZER_MODULE)) as {
+				getEncoding?: (name: string) => { encode(text: string): number[] };
+			};
+			const encoding = tiktoken.getEncoding?.("o200k_base");
+			if (!encoding) return;
+			registerTokenCounter({
+				name: "tiktoken o200k_base",
+				margin: TIKTOKEN_MARGIN,
+				supports: (model) => getProviderFamily(model) === "openai",
+				count: (text) => (text.trim() ? encoding.encode(text).length : 0),
+			});
+		} catch {
+			// Optional dependency not installed.
+		}
+	})();
+	return optionalTokenizersLoaded;
+}
+
+function resolveTokenCounter(model: Model<any> | undefined): TokenCounter {
+	return (
+		tokenizerCounters.find((counter) => counter.supports(model)) ??
+		heuristicTokenCounters.find((counter) => counter.supports(model)) ??
+		heuristicTokenCounters[heuristicTokenCounters.length - 1]
+	);
+}
+
+function formatTokenMargin(counter: TokenCounter): string {
+	return `±${Math.round(counter.margin * 100)}%`;
+}
+
+function estimateTextTokens(text: string, counter: TokenCounter): number {
+	return counter.count(text);
+}
+
+function countImageBlocks(content: unknown): number {
+	if (!Array.isArray(content)) return 0;
+	return content.filter((block) => block && typeof block === "object" && block.type === "image").length;
+}
+
+function estimateMessageTokens(message: AgentMessage, counter: TokenCounter): number {
+	const images = "content" in message ? countImageBlocks(message.content) : 0;
+	return counter.count(serializeConversation(convertToLlm([message]))) + images * IMAGE_TOKEN_ESTIMATE;
+}
+
+function formatTokenCount(tokens: number): string {
+	return `${tokens.toLocaleString()} tokens`;
+}
+
+function parseTokenCount(
+	input: string,
+	options: {
+		min?: number;
+		max?: number;
+		allowZero?: boolean;
+	} = {},
+): number | undefined {
+	const min = options.min ?? AUTO_TOKENS_MIN;
+	const max = options.max ?? AUTO_TOKENS_MAX;
+	const allowZero = options.allowZero ?? false;
+
+	const raw = input.trim().toLowerCase().replaceAll(",", "").replaceAll("_", "");
+	if (raw.length === 0) return undefined;
+
+	let multiplier = 1;
+	let numericPart = raw;
+	if (raw.endsWith("k")) {
+		multiplier = 1_000;
+		numericPart = raw.slice(0, -1);
+	} else if (raw.endsWith("m")) {
+		multiplier = 1_000_000;
+		numericPart = raw.slice(0, -1);
+	}
+
+	if (numericPart.length === 0) return undefined;
+	const numeric = Number(numericPart);
+	if (!Number.isFinite(numeric) || numeric < 0) {
+		return undefined;
+	}
+
+	const tokens = Math.round(numeric * multiplier);
+	if (!allowZero && tokens <= 0) {
+		return undefined;
+	}
+	if (allowZero && tokens === 0) {
+		return 0;
+	}
+	if (tokens < min || tokens > max) {
+		return undefined;
+	}
+
+	return tokens;
+}
+
+function parseAutoCompactionMode(token: string): AutoCompactionMode | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["buffered", "buffer", "bg", "background", "async", "auto"].includes(normalized)) {
+		return "buffered";
+	}
+	if (["blocking", "sync", "manual"].includes(normalized)) {
+		return "blocking";
+	}
+	return undefined;
+}
+
+function parseEnabledToken(token: string): boolean | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["on", "enable", "enabled", "true", "1"].includes(normalized)) return true;
+	if (["off", "disable", "disabled", "false", "0"].includes(normalized)) return false;
+	return undefined;
+}
+
+function parseRetainRawTailTokenCount(token: string): number | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["off", "none", "disable", "disabled", "false"].includes(normalized)) return 0;
+	return parseTokenCount(token, {
+		min: 0,
+		max: AUTO_TOKENS_MAX,
+		allowZero: true,
+	});
+}
+
+/**
+ * Parse a near-duplicate similarity threshold: a ratio (0.6) or percentage (60%) between 0.1 and 1.
+ * "off" (or 0) maps to 0, which skips the near-duplicate pass; "exact" maps to 1, which only merges
+ * observations whose token sets are identical.
+ */
+function parseSimilarityThreshold(token: string): number | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["off", "none", "disable", "disabled"].includes(normalized)) return 0;
+	if (normalized === "exact") return 1;
+	const match = normalized.match(/^(\d+(?:\.\d+)?)(%)?$/);
+	if (!match) return undefined;
+	const value = match[2] ? Number(match[1]) / 100 : Number(match[1]);
+	if (value === 0) return 0;
+	if (!Number.isFinite(value) || value < DEDUPE_SIMILARITY_MIN || value > 1) return undefined;
+	return value;
+}
+
+function parseProjectMemoryBudget(token: string): number | undefined {
+	return parseTokenCount(token, { min: PROJECT_MEMORY_BUDGET_MIN, max: AUTO_TOKENS_MAX });
+}
+
+/** Parse reflector caps as three counts in 🔴/🟡/🟢 order, e.g. `96/40/16` (commas or spaces also work). */
+function parseReflectorCaps(token: string): ReflectorCaps | undefined {
+	const parts = token
+		.trim()
+		.split(/[\s/,]+/)
+		.filter((part) => part.length > 0);
+	if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) return undefined;
+	const [red, yellow, green] = parts.map((part) => Number.parseInt(part, 10));
+	if ([red, yellow, green].some((value) => value < 1 || value > REFLECTOR_CAP_MAX)) return undefined;
+	return { red, yellow, green };
+}
+
+/**
+ * Parse a duration for the summarizer policy: `500ms`, `90s`, `3m`, or a plain number of seconds.
+ * `off` / `0` disable the timeout (and make retries immediate).
+ */
+function parseDuration(token: string): number | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["off", "none", "disable", "disabled"].includes(normalized)) return 0;
+	const match = normalized.match(/^(\d+(?:\.\d+)?)\s*(ms|s|m)?$/);
+	if (!match) return undefined;
+	const unit = match[2] === "ms" ? 1 : match[2] === "m" ? 60_000 : 1_000;
+	const ms = Math.round(Number(match[1]) * unit);
+	if (!Number.isFinite(ms) || ms > SUMMARIZER_DURATION_MAX_MS) return undefined;
+	return ms;
+}
+
+function parseRetryCount(token: string): number | undefined {
+	const normalized = token.trim();
+	if (!/^\d+$/.test(normalized)) return undefined;
+	const retries = Number.parseInt(normalized, 10);
+	return retries <= SUMMARIZER_RETRIES_MAX ? retries : undefined;
+}
+
+/** Inverse of `parseDuration()` for settings display, e.g. `180s` or `0.5s`. */
+function formatSettingDuration(ms: number): string {
+	return ms === 0 ? "off" : `${ms / 1000}s`;
+}
+
+function formatReflectorCaps(caps: ReflectorCaps): string {
+	return `${caps.red}/${caps.yellow}/${caps.green}`;
+}
+
+function formatSimilarityThreshold(value: number): string {
+	if (value <= 0) return "off";
+	return value >= 1 ? "1 (exact token sets only)" : String(value);
+}
+
+function shouldIgnoreAutoCompactError(message: string): boolean {
+	return /nothing to compact|already compacted|compaction cancelled/i.test(message);
+}
+
+function estimateCustomMessageEntryTokens(
+	entry: Extract<SessionEntry, { type: "custom_message" }>,
+	counter: TokenCounter,
+): number {
+	if (typeof entry.content === "string") {
+		return counter.count(entry.content);
+	}
+
+	let tokens = 0;
+	for (const block of entry.content) {
+		if (block.type === "text") {
+			tokens += counter.count(block.text);
+		} else if (block.type === "image") {
+			tokens += IMAGE_TOKEN_ESTIMATE;
+		}
+	}
+	return tokens;
+}
+
+function estimateObservationTokens(summary: string | undefined, counter: TokenCounter): number {
+	if (!summary) return 0;
+	return estimateTextTokens(stripFileTags(summary), counter);
+}
+
+function getObserverActivationThreshold(observerTriggerTokens: number, rawTailRetainTokens: number): number {
+	return observerTriggerTokens + rawTailRetainTokens;
+}
+
+function estimateRawTailTokens(branchEntries: SessionEntry[], counter: TokenCounter): number {
+	let startIndex = 0;
+	for (let i = branchEntries.length - 1; i >= 0; i--) {
+		if (branchEntries[i].type === "compaction") {
+			startIndex = i + 1;
+			break;
+		}
+	}
+
+	let totalTokens = 0;
+	for (let i = startIndex; i < branchEntries.length; i++) {
+		const entry = branchEntries[i];
+		switch (entry.type) {
+			case "message":
+				totalTokens += estimateMessageTokens(entry.message, counter);
+				break;
+			case "custom_message":
+				totalTokens += estimateCustomMessageEntryTokens(entry, counter);
+				break;
+			case "branch_summary":
+				totalTokens += estimateTextTokens(stripFileTags(entry.summary), counter);
+				break;
+			default:
+				break;
+		}
+	}
+
+	return totalTokens;
+}
+
+function parseTaggedFiles(summary: string | undefined, tag: "read-files" | "modified-files"): Set<string> {
+	if (!summary) return new Set<string>();
+	const regex = new RegExp(`<${tag}>\\n([\\s\\S]*?)\\n<\\/${tag}>`, "m");
+	const match = summary.match(regex);
+	if (!match?.[1]) return new Set<string>();
+	return new Set(
+		match[1]
+			.split("\n")
+			.map((line) => line.trim())
+			.filter((line) => line.length > 0),
+	);
+}
+
+function stripFileTags(summary: string): string {
+	return summary
+		.replace(/\n?<read-files>\n[\s\S]*?\n<\/read-files>/gm, "")
+		.replace(/\n?<modified-files>\n[\s\S]*?\n<\/modified-files>/gm, "")
+		.trim();
+}
+
+function formatFileOperations(fileOps: FileOperations, previousSummary?: string): string {
+	const previousRead = parseTaggedFiles(previousSummary, "read-files");
+	const previousModified = parseTaggedFiles(previousSummary, "modified-files");
+
+	const currentModified = new Set<string>([...fileOps.edited, ...fileOps.written]);
+	const currentRead = new Set<string>([...fileOps.read].filter((filePath) => !currentModified.has(filePath)));
+
+	const modified = new Set<string>([...previousModified, ...currentModified]);
+	const read = new Set<string>([...previousRead, ...currentRead]);
+	for (const filePath of modified) {
+		read.delete(filePath);
+	}
+
+	const readFiles = [...read].sort();
+	const modifiedFiles = [...modified].sort();
+
+	const sections: string[] = [];
+	if (readFiles.length > 0) {
+		sections.push(`<read-files>\n${readFiles.join("\n")}\n</read-files>`);
+	}
+	if (modifiedFiles.length > 0) {
+		sections.push(`<modified-files>\n${modifiedFiles.join("\n")}\n</modified-files>`);
+	}
+	if (sections.length === 0) return "";
+	return `\n\n${sections.join("\n\n")}`;
+}
+
+function extractSection(summary: string, heading: string, nextHeading?: string): string {
+	const start = summary.indexOf(heading);
+	if (start === -1) return "";
+
+	let content = summary.slice(start + heading.length);
+	content = content.replace(/^\s*\n/, "");
+
+	if (!nextHeading) {
+		return content.trim();
+	}
+
+	const end = content.indexOf(nextHeading);
+	if (end === -1) {
+		return content.trim();
+	}
+	return content.slice(0, end).trim();
+}
+
+function priorityFromEmoji(emoji: string): ObservationPriority {
 	switch (emoji) {
 		case "🔴":
 			return "red";
@@ -371,6 +1622,25 @@ function priorityFromEmoji(emoji: string): ObservationPriority {
 	}
 }
 
+function priorityEmoji(priority: ObservationPriority): string {
+	switch (priority) {
+		case "red":
+			return "🔴";
+		case "yellow":
+			return "🟡";
+		default:
+			return "🟢";
+	}
+}
+
+function parsePriorityToken(token: string): ObservationPriority | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["🔴", "red", "critical", "high"].includes(normalized)) return "red";
+	if (["🟡", "yellow", "important", "medium"].includes(normalized)) return "yellow";
+	if (["🟢", "green", "info", "low"].includes(normalized)) return "green";
+	return undefined;
+}
+
 function priorityRank(priority: ObservationPriority): number {
 	switch (priority) {
 		case "red":
@@ -391,32 +1661,191 @@ function normalizeObservationKey(body: string): string {
 		.trim();
 }
 
+function parseSourceIds(text: string): string[] {
+	return [
+		...new Set(
+			text
+				.split(/[\s,]+/)
+				.map((id) => id.replace(/^entry:/i, "").trim())
+				.filter((id) => id.length > 0),
+		),
+	];
+}
+
+function mergeSourceIds(...lists: Array<string[] | undefined>): string[] | undefined {
+	const merged = [...new Set(lists.flatMap((list) => list ?? []))];
+	return merged.length > 0 ? merged : undefined;
+}
+
+function formatObservationLine(item: {
+	priority: ObservationPriority;
+	body: string;
+	time?: string;
+	sources?: string[];
+}): string {
+	const timePrefix = item.time ? `${item.time} ` : "";
+	const sourceTag = item.sources && item.sources.length > 0 ? ` [src: ${item.sources.join(", ")}]` : "";
+	return `- ${priorityEmoji(item.priority)} ${timePrefix}${item.body}${sourceTag}`;
+}
+
+/**
+ * Observation lines grouped under one `Date:` header per day: undated groups first, then days in
+ * chronological order; items keep their relative order inside a day.
+ */
+function renderObservationLines(
+	items: Array<{ priority: ObservationPriority; body: string; date?: string; time?: string; sources?: string[] }>,
+	options: { includeSources: boolean },
+): string[] {
+	const byDate = new Map<string, string[]>();
+	for (const item of items) {
+		const date = item.date ?? "unknown";
+		const line = formatObservationLine(options.includeSources ? item : { ...item, sources: undefined });
+		byDate.set(date, [...(byDate.get(date) ?? []), line]);
+	}
+
+	const dates = [...byDate.keys()].sort((a, b) => {
+		const aDated = DAY_DATE_RE.test(a);
+		const bDated = DAY_DATE_RE.test(b);
+		if (aDated !== bDated) return aDated ? 1 : -1;
+		return aDated ? a.localeCompare(b) : 0;
+	});
+	return dates.flatMap((date) => [`Date: ${date}`, ...(byDate.get(date) ?? [])]);
+}
+
 function parseObservationLines(observationsSection: string): ParsedObservation[] {
 	const lines = observationsSection.split("\n");
 	const parsed: ParsedObservation[] = [];
+	let date: string | undefined;
 
 	for (let index = 0; index < lines.length; index++) {
 		const line = lines[index].trim();
+		const dateMatch = line.match(/^Date:\s*(.+)$/i);
+		if (dateMatch) {
+			date = dateMatch[1].trim();
+			continue;
+		}
+
 		const match = line.match(/^\s*-\s*(🔴|🟡|🟢)\s+(.+)$/u);
 		if (!match) continue;
 
-		const body = match[2].trim();
+		const sourceMatch = match[2].match(SOURCE_TAG_RE);
+		const text = (sourceMatch ? match[2].slice(0, sourceMatch.index) : match[2]).trim();
+		const timeMatch = text.match(TIME_PREFIX_RE);
+		const body = (timeMatch ? text.slice(timeMatch[0].length) : text).trim();
 		if (!body) continue;
 		const key = normalizeObservationKey(body);
 		if (!key) continue;
+		const sources = sourceMatch ? parseSourceIds(sourceMatch[1]) : [];
 
 		parsed.push({
 			priority: priorityFromEmoji(match[1]),
 			body,
 			key,
 			index,
+			date,
+			...(timeMatch ? { time: timeMatch[1].padStart(5, "0") } : {}),
+			...(sources.length > 0 ? { sources } : {}),
 		});
 	}
 
 	return parsed;
 }
 
-function dedupeAndLimitObservations(observations: ParsedObservation[], forced: boolean): ParsedObservation[] {
+/**
+ * Token set used for near-duplicate matching: lowercase words with stopwords removed and plural/verb
+ * suffixes folded, so "uses pnpm workspaces" and "project uses pnpm" share `use` and `pnpm`, and
+ * "pass"/"passes" both become `pass`. "cannot" and `n't` contractions become `not`.
+ * Tokens containing `.`, `/` or `-` (paths, package names, flags) are kept verbatim.
+ */
+function similarityTokens(key: string): Set<string> {
+	const tokens = new Set<string>();
+	for (const raw of key.replace(/\u2019/g, "'").split(/[\s,;:!?"()]+/)) {
+		const word = raw.replace(/^[.\-/']+|[.\-/']+$/g, "").replace(/'s$/, "");
+		if (word.length < 2 || SIMILARITY_STOPWORDS.has(word)) continue;
+		if (word === "cannot" || word.endsWith("n't")) {
+			tokens.add("not");
+			continue;
+		}
+		if (/[./'-]/.test(word)) {
+			tokens.add(word);
+			continue;
+		}
+		if (word.length > 4 && /(?:ing|ed|es)$/.test(word)) {
+			tokens.add(word.replace(/(?:ing|ed|es)$/, ""));
+		} else {
+			tokens.add(word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+		}
+	}
+	return tokens;
+}
+
+const similarityStateTokens = similarityTokens(SIMILARITY_STATE_WORDS.join(" "));
+
+/** True when one token set has a negation or state word the other lacks, e.g. "fail" vs "pass". */
+function differsInState(a: Set<string>, b: Set<string>): boolean {
+	for (const token of similarityStateTokens) {
+		if (a.has(token) !== b.has(token)) return true;
+	}
+	return false;
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): { similarity: number; shared: number } {
+	let shared = 0;
+	for (const token of a) {
+		if (b.has(token)) shared++;
+	}
+	const union = a.size + b.size - shared;
+	return { similarity: union === 0 ? 0 : shared / union, shared };
+}
+
+/** The near-duplicate test of `mergeNearDuplicateObservations()`; `tokens` is the later (merged) line. */
+function isNearDuplicate(leader: Set<string>, tokens: Set<string>, threshold: number): boolean {
+	if (threshold <= 0) return false;
+	const { similarity, shared } = jaccardSimilarity(leader, tokens);
+	return (
+		similarity >= threshold &&
+		shared >= Math.min(SIMILARITY_MIN_SHARED_TOKENS, tokens.size) &&
+		!differsInState(leader, tokens)
+	);
+}
+
+/**
+ * Greedy leader clustering over token-set Jaccard similarity. Items arrive ordered by priority and
+ * recency, so each cluster's leader is its highest-priority, most recent member; later members only
+ * contribute their source ids. A match also needs two shared tokens so short lines do not collapse
+ * on a single common word, and no negation/state word on only one side. A threshold of 0 disables it.
+ */
+function mergeNearDuplicateObservations<T extends { key: string; sources?: string[] }>(
+	items: T[],
+	threshold: number,
+	pinnedKeys: Set<string>,
+): { items: T[]; merged: number } {
+	if (threshold <= 0) return { items, merged: 0 };
+	const clusters: Array<{ leader: T; tokens: Set<string> }> = [];
+
+	for (const item of items) {
+		const tokens = similarityTokens(item.key);
+		if (pinnedKeys.has(item.key)) {
+			clusters.push({ leader: item, tokens });
+			continue;
+		}
+		const cluster = clusters.find((candidate) => isNearDuplicate(candidate.tokens, tokens, threshold));
+		if (!cluster) {
+			clusters.push({ leader: item, tokens });
+			continue;
+		}
+		cluster.leader = { ...cluster.leader, sources: mergeSourceIds(cluster.leader.sources, item.sources) };
+	}
+
+	return { items: clusters.map((cluster) => cluster.leader), merged: items.length - clusters.length };
+}
+
+function dedupeAndLimitObservations(
+	observations: ParsedObservation[],
+	forced: boolean,
+	options: HeuristicReflectionOptions,
+): { picked: ParsedObservation[]; merged: number } {
+	const pinnedKeys = options.pinnedKeys ?? new Set<string>();
 	const byKey = new Map<string, ParsedObservation>();
 
 	for (const item of observations) {
@@ -426,39 +1855,61 @@ function dedupeAndLimitObservations(observations: ParsedObservation[], forced: b
 			continue;
 		}
 
+		const sources = mergeSourceIds(previous.sources, item.sources);
 		const previousRank = priorityRank(previous.priority);
 		const currentRank = priorityRank(item.priority);
-		if (currentRank > previousRank) {
-			byKey.set(item.key, item);
+		if (currentRank > previousRank || (currentRank === previousRank && item.index > previous.index)) {
+			byKey.set(item.key, { ...item, sources });
 			continue;
 		}
 
-		if (currentRank === previousRank && item.index > previous.index) {
-			byKey.set(item.key, item);
-		}
+		byKey.set(item.key, { ...previous, sources });
 	}
 
-	const unique = [...byKey.values()].sort((a, b) => {
-		const rankDelta = priorityRank(b.priority) - priorityRank(a.priority);
-		if (rankDelta !== 0) return rankDelta;
-		return b.index - a.index;
-	});
+	const { items: unique, merged } = mergeNearDuplicateObservations(
+		[...byKey.values()].sort((a, b) => {
+			const rankDelta = priorityRank(b.priority) - priorityRank(a.priority);
+			if (rankDelta !== 0) return rankDelta;
+			return b.index - a.index;
+		}),
+		options.similarityThreshold ?? DEFAULT_DEDUPE_SIMILARITY,
+		pinnedKeys,
+	);
 
-	const limits = forced ? REFLECT_LIMITS_FORCED : REFLECT_LIMITS_THRESHOLD;
+	const limits = forced ? (options.forcedCaps ?? REFLECT_LIMITS_FORCED) : (options.caps ?? REFLECT_LIMITS_THRESHOLD);
 	const picked: ParsedObservation[] = [];
 	const counts = { red: 0, yellow: 0, green: 0 };
 
 	for (const item of unique) {
-		if (counts[item.priority] >= limits[item.priority]) continue;
-		counts[item.priority]++;
+		if (!pinnedKeys.has(item.key)) {
+			if (counts[item.priority] >= limits[item.priority]) continue;
+			counts[item.priority]++;
+		}
 		picked.push(item);
 	}
 
-	return picked.sort((a, b) => {
+	picked.sort((a, b) => {
 		const rankDelta = priorityRank(b.priority) - priorityRank(a.priority);
 		if (rankDelta !== 0) return rankDelta;
 		return b.index - a.index;
 	});
+	return { picked, merged };
+}
+
+function parseOpenThreadLines(openThreadsSection: string): string[] {
+	return openThreadsSection
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.startsWith("- "))
+		.map((line) => line.replace(/^-\s+/, "").trim());
+}
+
+function parseNextActionLines(nextActionSection: string): string[] {
+	return nextActionSection
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => /^\d+\.\s+/.test(line))
+		.map((line) => line.replace(/^\d+\.\s+/, "").trim());
 }
 
 function dedupeTextLines(lines: string[], maxItems: number): string[] {
@@ -476,7 +1927,11 @@ function dedupeTextLines(lines: string[], maxItems: number): string[] {
 	return output;
 }
 
-function reflectSummary(summary: string, mode: ReflectionMode): ReflectionResult {
+function reflectSummary(
+	summary: string,
+	mode: ReflectionMode,
+	options: HeuristicReflectionOptions = {},
+): ReflectionResult {
 	if (mode === "none") {
 		const count = countObservationLines(summary);
 		return {
@@ -484,61 +1939,896 @@ function reflectSummary(summary: string, mode: ReflectionMode): ReflectionResult
 			before: count,
 			after: count,
 			dropped: 0,
+			merged: 0,
 		};
 	}
 
-	const observationsSection = extractSection(summary, "## Observations", "## Open Threads");
-	const openThreadsSection = extractSection(summary, "## Open Threads", "## Next Action Bias");
-	const nextActionSection = extractSection(summary, "## Next Action Bias");
+	const observationsSection = extractSection(summary, "## Observations", "## Open Threads");
+	const openThreadsSection = extractSection(summary, "## Open Threads", "## Next Action Bias");
+	const nextActionSection = extractSection(summary, "## Next Action Bias");
+
+	const parsedObservations = parseObservationLines(observationsSection);
+	const { picked: reflectedObservations, merged } = dedupeAndLimitObservations(
+		parsedObservations,
+		mode === "forced",
+		options,
+	);
+
+	const openThreadLines = dedupeTextLines(parseOpenThreadLines(openThreadsSection), 12);
+	const nextActionLines = dedupeTextLines(parseNextActionLines(nextActionSection), 4);
+
+	const chronological = [...reflectedObservations].sort((a, b) => a.index - b.index);
+	const reflected = [
+		"## Observations",
+		...(chronological.length > 0
+			? renderObservationLines(chronological, { includeSources: true })
+			: ["Date: unknown", "- 🟡 No durable observations extracted."]),
+		"",
+		"## Open Threads",
+		...(openThreadLines.length > 0 ? openThreadLines.map((line) => `- ${line}`) : ["- (none)"]),
+		"",
+		"## Next Action Bias",
+		...(nextActionLines.length > 0
+			? nextActionLines.map((line, index) => `${index + 1}. ${line}`)
+			: ["1. Continue from the latest user request and retained recent context."]),
+	].join("\n");
+
+	return {
+		summary: reflected,
+		before: parsedObservations.length,
+		after: reflectedObservations.length,
+		dropped: Math.max(0, parsedObservations.length - reflectedObservations.length),
+		merged,
+	};
+}
+
+function observationRecordId(key: string, taken: Set<string>): string {
+	const base = `obs-${createHash("sha256").update(key).digest("hex").slice(0, 10)}`;
+	let id = base;
+	for (let suffix = 2; taken.has(id); suffix++) {
+		id = `${base}-${suffix}`;
+	}
+	taken.add(id);
+	return id;
+}
+
+/**
+ * Turn the Observations section of a summary into records, reusing id/createdAt/createdIn from
+ * previous records with the same normalized body so ids stay stable across compactions.
+ */
+function buildObservationRecords(
+	summary: string,
+	previous: ObservationRecord[],
+	generatedAt: string,
+): ObservationRecord[] {
+	const previousByKey = new Map(previous.map((record) => [normalizeObservationKey(record.body), record]));
+	const taken = new Set<string>();
+	const records: ObservationRecord[] = [];
+
+	for (const item of parseObservationLines(extractSection(summary, "## Observations", "## Open Threads"))) {
+		const match = previousByKey.get(item.key);
+		const reuseId = match && !taken.has(match.id);
+		if (reuseId) taken.add(match.id);
+		const sources = mergeSourceIds(match?.sources, item.sources);
+
+		records.push({
+			id: reuseId ? match.id : observationRecordId(item.key, taken),
+			priority: item.priority,
+			body: item.body,
+			...(item.date ? { date: item.date } : {}),
+			...(item.time ? { time: item.time } : {}),
+			createdAt: match?.createdAt ?? generatedAt,
+			...(match?.createdIn ? { createdIn: match.createdIn } : {}),
+			...(sources ? { sources } : {}),
+		});
+	}
+
+	return records;
+}
+
+function isObservationRecord(value: unknown): value is ObservationRecord {
+	if (!value || typeof value !== "object") return false;
+	const maybe = value as Record<string, unknown>;
+	return (
+		typeof maybe.id === "string" &&
+		(maybe.priority === "red" || maybe.priority === "yellow" || maybe.priority === "green") &&
+		typeof maybe.body === "string" &&
+		typeof maybe.createdAt === "string"
+	);
+}
+
+/**
+ * Structured records for a compaction entry. Schema v3+ entries carry them in details; older entries
+ * (and compactions from other strategies) are parsed from the summary markdown with content-derived ids.
+ */
+function readObservationRecords(entry: CompactionEntry): ObservationRecord[] {
+	const details = isObservationalCompactionDetails(entry.details) ? entry.details : undefined;
+	if (details && details.schemaVersion >= 3 && Array.isArray(details.observations)) {
+		return details.observations.filter(isObservationRecord).map((record) => ({
+			...record,
+			createdIn: record.createdIn ?? entry.id,
+			lastConfirmedIn: record.lastConfirmedIn ?? entry.id,
+		}));
+	}
+
+	const taken = new Set<string>();
+	return parseObservationLines(extractSection(stripFileTags(entry.summary), "## Observations", "## Open Threads")).map(
+		(item) => ({
+			id: observationRecordId(item.key, taken),
+			priority: item.priority,
+			body: item.body,
+			...(item.date ? { date: item.date } : {}),
+			...(item.time ? { time: item.time } : {}),
+			createdAt: entry.timestamp,
+			createdIn: entry.id,
+			lastConfirmedIn: entry.id,
+			...(item.sources ? { sources: item.sources } : {}),
+		}),
+	);
+}
+
+/** Render the three-section summary with the Observations section generated from records. */
+function renderObservationSummary(
+	records: ObservationRecord[],
+	summary: string,
+	options: { includeSources?: boolean } = {},
+): string {
+	const openThreadLines = parseOpenThreadLines(extractSection(summary, "## Open Threads", "## Next Action Bias"));
+	const nextActionLines = parseNextActionLines(
+		extractSection(summary, "## Next Action Bias", LEGACY_RAW_OUTPUT_HEADING),
+	);
+
+	const observationLines = renderObservationLines(records, { includeSources: options.includeSources ?? false });
+
+	return [
+		"## Observations",
+		...(observationLines.length > 0 ? observationLines : ["Date: unknown", "- 🟡 No durable observations extracted."]),
+		"",
+		"## Open Threads",
+		...(openThreadLines.length > 0 ? openThreadLines.map((line) => `- ${line}`) : ["- (none)"]),
+		"",
+		"## Next Action Bias",
+		...(nextActionLines.length > 0
+			? nextActionLines.map((line, index) => `${index + 1}. ${line}`)
+			: ["1. Continue from the latest user request and retained recent context."]),
+	].join("\n");
+}
+
+function isPinnedObservation(value: unknown): value is PinnedObservation {
+	if (!value || typeof value !== "object") return false;
+	const maybe = value as Record<string, unknown>;
+	return (
+		typeof maybe.id === "string" &&
+		(maybe.priority === "red" || maybe.priority === "yellow" || maybe.priority === "green") &&
+		typeof maybe.body === "string" &&
+		typeof maybe.pinnedAt === "string"
+	);
+}
+
+/** Pins in effect on a branch: the list stored by the latest pins entry. */
+function readPinnedObservations(branchEntries: SessionEntry[]): PinnedObservation[] {
+	const lastPinsEntry = [...branchEntries]
+		.reverse()
+		.find((entry) => entry.type === "custom" && entry.customType === PINS_ENTRY_TYPE);
+	const data = lastPinsEntry?.type === "custom" ? lastPinsEntry.data : undefined;
+	const pins = data && typeof data === "object" ? (data as { pins?: unknown }).pins : undefined;
+	return Array.isArray(pins) ? pins.filter(isPinnedObservation) : [];
+}
+
+function renderPinnedSection(pins: PinnedObservation[]): string[] {
+	return [
+		"## Pinned",
+		...pins.map((pin) => `${formatObservationLine({ ...pin, sources: undefined })} (\`${pin.id}\`)`),
+	];
+}
+
+function pinnedObservationKeys(pins: PinnedObservation[]): Set<string> {
+	return new Set(pins.map((pin) => normalizeObservationKey(pin.body)));
+}
+
+/**
+ * Mark records that match a pin (by id or normalized body) and add back pins the observer or reflector
+ * left out, so pinned observations survive every compaction verbatim. A reworded copy of a pin (a
+ * near-duplicate at `similarityThreshold`) is dropped when the pin is added back, its sources kept.
+ */
+function applyPinnedObservations(
+	records: ObservationRecord[],
+	pins: PinnedObservation[],
+	similarityThreshold: number,
+): { records: ObservationRecord[]; reinjected: number } {
+	const taken = new Set(records.map((record) => record.id));
+	let output = [...records];
+	let reinjected = 0;
+
+	for (const pin of pins) {
+		const key = normalizeObservationKey(pin.body);
+		const index = output.findIndex((record) => record.id === pin.id || normalizeObservationKey(record.body) === key);
+		if (index >= 0) {
+			output[index] = { ...output[index], pinned: true };
+			continue;
+		}
+
+		const pinTokens = similarityTokens(key);
+		const rewordings = output.filter(
+			(record) =>
+				!record.pinned &&
+				isNearDuplicate(pinTokens, similarityTokens(normalizeObservationKey(record.body)), similarityThreshold),
+		);
+		output = output.filter((record) => !rewordings.includes(record));
+		const sources = mergeSourceIds(pin.sources, ...rewordings.map((record) => record.sources));
+
+		const id = taken.has(pin.id) ? observationRecordId(key, taken) : pin.id;
+		taken.add(id);
+		reinjected++;
+		output.push({
+			id,
+			priority: pin.priority,
+			body: pin.body,
+			...(pin.date ? { date: pin.date } : {}),
+			...(pin.time ? { time: pin.time } : {}),
+			createdAt: pin.pinnedAt,
+			...(sources ? { sources } : {}),
+			pinned: true,
+		});
+	}
+
+	return { records: output, reinjected };
+}
+
+function isMemoryEdit(value: unknown): value is MemoryEdit {
+	if (!value || typeof value !== "object") return false;
+	const maybe = value as Record<string, unknown>;
+	if (typeof maybe.at !== "string") return false;
+	switch (maybe.op) {
+		case "add":
+		case "edit":
+			return (
+				typeof maybe.id === "string" &&
+				typeof maybe.body === "string" &&
+				(maybe.priority === "red" || maybe.priority === "yellow" || maybe.priority === "green")
+			);
+		case "forget":
+			return typeof maybe.id === "string" || typeof maybe.pattern === "string";
+		default:
+			return false;
+	}
+}
+
+/**
+ * Manual edits on a branch, oldest first. `pendingOnly` keeps the ones appended after the latest compaction,
+ * which the next compaction applies; rebuilds re-apply all of them.
+ */
+function readMemoryEdits(branchEntries: SessionEntry[], options: { pendingOnly: boolean }): MemoryEdit[] {
+	let start = 0;
+	if (options.pendingOnly) {
+		for (let index = branchEntries.length - 1; index >= 0; index--) {
+			if (branchEntries[index].type === "compaction") {
+				start = index + 1;
+				break;
+			}
+		}
+	}
+
+	return branchEntries
+		.slice(start)
+		.flatMap((entry) =>
+			entry.type === "custom" && entry.customType === EDITS_ENTRY_TYPE && isMemoryEdit(entry.data) ? [entry.data] : [],
+		);
+}
+
+/**
+ * Matcher for a `/obs-forget` pattern: `/regex/flags`, or a case-insensitive substring otherwise.
+ * Returns undefined for an invalid regex.
+ */
+function compileForgetPattern(pattern: string): ((body: string) => boolean) | undefined {
+	const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+	if (!regexMatch) {
+		const needle = pattern.toLowerCase();
+		return (body) => body.toLowerCase().includes(needle);
+	}
+	try {
+		const flags = regexMatch[2].replace(/[gy]/g, "");
+		const regex = new RegExp(regexMatch[1], flags.includes("i") ? flags : `${flags}i`);
+		return (body) => regex.test(body);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Apply manual edits to records in order. Forgets remove matching records, edits rewrite the target
+ * (re-adding it if the observer dropped it), adds append the observation unless it is already present.
+ */
+function applyMemoryEdits(records: ObservationRecord[], edits: MemoryEdit[]): ObservationRecord[] {
+	let output = [...records];
+
+	for (const edit of edits) {
+		switch (edit.op) {
+			case "forget": {
+				const matches = edit.pattern ? compileForgetPattern(edit.pattern) : undefined;
+				output = output.filter(
+					(record) =>
+						record.id !== edit.id &&
+						(edit.key === undefined || normalizeObservationKey(record.body) !== edit.key) &&
+						!matches?.(record.body),
+				);
+				break;
+			}
+			case "edit": {
+				const newKey = normalizeObservationKey(edit.body);
+				const isTarget = (record: ObservationRecord) => {
+					const key = normalizeObservationKey(record.body);
+					return record.id === edit.id || key === edit.key || key === newKey;
+				};
+				const target = output.find(isTarget);
+				output = output.filter((record) => !isTarget(record) || record === target);
+				if (target) {
+					output[output.indexOf(target)] = { ...target, id: edit.id, priority: edit.priority, body: edit.body };
+				} else {
+					output.push({ id: edit.id, priority: edit.priority, body: edit.body, createdAt: edit.at });
+				}
+				break;
+			}
+			case "add": {
+				const key = normalizeObservationKey(edit.body);
+				const index = output.findIndex(
+					(record) => record.id === edit.id || normalizeObservationKey(record.body) === key,
+				);
+				if (index >= 0) {
+					output[index] = { ...output[index], priority: edit.priority };
+					break;
+				}
+				output.push({
+					id: edit.id,
+					priority: edit.priority,
+					body: edit.body,
+					date: edit.date,
+					time: edit.time,
+					createdAt: edit.at,
+				});
+				break;
+			}
+		}
+	}
+
+	return output;
+}
+
+/** Records of the latest compaction with pending manual edits applied, i.e. what the next compaction starts from. */
+function readCurrentObservationRecords(branchEntries: SessionEntry[]): ObservationRecord[] {
+	const lastCompaction = [...branchEntries]
+		.reverse()
+		.find((entry): entry is CompactionEntry => entry.type === "compaction");
+	return applyMemoryEdits(
+		lastCompaction ? readObservationRecords(lastCompaction) : [],
+		readMemoryEdits(branchEntries, { pendingOnly: true }),
+	);
+}
+
+/** Parse "[priority] text" typed by the user; the leading priority token (emoji or word) is optional. */
+function parseObservationInput(
+	text: string,
+	fallback?: ObservationPriority,
+): { priority?: ObservationPriority; body: string } {
+	const trimmed = text.trim().replace(/^-\s+/, "");
+	const [first, ...rest] = trimmed.split(/\s+/);
+	const priority = first ? parsePriorityToken(first) : undefined;
+	return priority ? { priority, body: rest.join(" ").trim() } : { priority: fallback, body: trimmed };
+}
+
+/** Apply manual edits to a summary's Observations section, keeping record ids and source tags. */
+function applyMemoryEditsToSummary(
+	summary: string,
+	edits: MemoryEdit[],
+	previous: ObservationRecord[],
+	options: { includeSources: boolean },
+): string {
+	const records = applyMemoryEdits(buildObservationRecords(summary, previous, new Date().toISOString()), edits);
+	return renderObservationSummary(records, summary, options);
+}
+
+function getProjectMemoryPath(cwd: string): string {
+	return join(cwd, DEFAULT_DUMP_DIR, PROJECT_MEMORY_FILE_NAME);
+}
+
+function createProjectMemoryStore(observations: ProjectMemoryObservation[] = []): ProjectMemoryStore {
+	return {
+		schema: PROJECT_MEMORY_SCHEMA,
+		schemaVersion: PROJECT_MEMORY_SCHEMA_VERSION,
+		updatedAt: new Date().toISOString(),
+		observations,
+	};
+}
+
+function isProjectMemoryObservation(value: unknown): value is ProjectMemoryObservation {
+	if (!value || typeof value !== "object") return false;
+	const maybe = value as Record<string, unknown>;
+	return (
+		typeof maybe.id === "string" &&
+		(maybe.priority === "red" || maybe.priority === "yellow" || maybe.priority === "green") &&
+		typeof maybe.body === "string" &&
+		typeof maybe.firstSeenAt === "string" &&
+		typeof maybe.lastSeenAt === "string" &&
+		typeof maybe.seenCount === "number"
+	);
+}
+
+/** Read the project memory file; a missing file is an empty store, an unreadable one is reported. */
+function readProjectMemory(path: string): { store: ProjectMemoryStore; error?: string } {
+	if (!existsSync(path)) return { store: createProjectMemoryStore() };
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { store: createProjectMemoryStore(), error: `${path}: ${message}` };
+	}
+	const maybe = parsed as Partial<ProjectMemoryStore> | null;
+	if (!maybe || maybe.schema !== PROJECT_MEMORY_SCHEMA || !Array.isArray(maybe.observations)) {
+		return { store: createProjectMemoryStore(), error: `${path}: not a ${PROJECT_MEMORY_SCHEMA} file` };
+	}
+	if (typeof maybe.schemaVersion !== "number" || maybe.schemaVersion > PROJECT_MEMORY_SCHEMA_VERSION) {
+		return { store: createProjectMemoryStore(), error: `${path}: unsupported schemaVersion ${maybe.schemaVersion}` };
+	}
+
+	return {
+		store: {
+			...createProjectMemoryStore(maybe.observations.filter(isProjectMemoryObservation)),
+			updatedAt: typeof maybe.updatedAt === "string" ? maybe.updatedAt : new Date(0).toISOString(),
+		},
+	};
+}
+
+function writeProjectMemory(path: string, observations: ProjectMemoryObservation[]): void {
+	mkdirSync(dirname(path), { recursive: true });
+	writeFileSync(path, `${JSON.stringify(createProjectMemoryStore(observations), null, "\t")}\n`, "utf-8");
+}
+
+/**
+ * Fold a compaction's 🔴/🟡 records into the project memory: known observations (same id or normalized body)
+ * take the latest priority and seen time, new ones are appended.
+ */
+function mergeProjectMemory(
+	observations: ProjectMemoryObservation[],
+	records: ObservationRecord[],
+	sessionId: string,
+	seenAt: string,
+): ProjectMemoryObservation[] {
+	const output = [...observations];
+	const taken = new Set(output.map((item) => item.id));
+
+	for (const record of records) {
+		if (record.priority === "green") continue;
+		const key = normalizeObservationKey(record.body);
+		const index = output.findIndex((item) => item.id === record.id || normalizeObservationKey(item.body) === key);
+		if (index >= 0) {
+			output[index] = {
+				...output[index],
+				priority: record.priority,
+				lastSeenAt: seenAt,
+				seenCount: output[index].seenCount + 1,
+				lastSessionId: sessionId,
+			};
+			continue;
+		}
+
+		const id = taken.has(record.id) ? observationRecordId(key, taken) : record.id;
+		taken.add(id);
+		output.push({
+			id,
+			priority: record.priority,
+			body: record.body,
+			firstSeenAt: seenAt,
+			lastSeenAt: seenAt,
+			seenCount: 1,
+			lastSessionId: sessionId,
+		});
+	}
+
+	return output;
+}
+
+/**
+ * Project memory GC: near-duplicates collapse into their highest-priority, most recently seen member,
+ * then observations are kept by priority and recency while they fit the token budget.
+ */
+function collectProjectMemory(
+	observations: ProjectMemoryObservation[],
+	budget: number,
+	counter: TokenCounter,
+	similarityThreshold: number,
+): { observations: ProjectMemoryObservation[]; merged: number; dropped: number; tokens: number } {
+	const ordered = [...observations].sort(
+		(a, b) =>
+			priorityRank(b.priority) - priorityRank(a.priority) ||
+			b.lastSeenAt.localeCompare(a.lastSeenAt) ||
+			b.seenCount - a.seenCount,
+	);
+	const { items, merged } = mergeNearDuplicateObservations(
+		ordered.map((observation) => ({ key: normalizeObservationKey(observation.body), observation })),
+		similarityThreshold,
+		new Set(),
+	);
+
+	const kept: ProjectMemoryObservation[] = [];
+	let tokens = 0;
+	for (const { observation } of items) {
+		const lineTokens = estimateTextTokens(formatObservationLine(observation), counter);
+		if (tokens + lineTokens > budget) continue;
+		tokens += lineTokens;
+		kept.push(observation);
+	}
+
+	return { observations: kept, merged, dropped: items.length - kept.length, tokens };
+}
+
+function renderProjectMemoryContext(observations: ProjectMemoryObservation[]): string {
+	return [
+		"Project memory carried over from earlier pi sessions in this repository (observational memory).",
+		"Treat it as background context; re-check details that may have changed since.",
+		"",
+		"## Project Memory",
+		...observations.map((observation) => formatObservationLine(observation)),
+	].join("\n");
+}
+
+function getTelemetryPath(cwd: string): string {
+	return join(cwd, DEFAULT_DUMP_DIR, TELEMETRY_FILE_NAME);
+}
+
+function getRotatedTelemetryPath(path: string): string {
+	return `${path}.1`;
+}
+
+/** Append one record, first rotating a log that reached `TELEMETRY_MAX_BYTES`; at most two files are kept. */
+function appendTelemetryRecord(path: string, record: TelemetryRecord): void {
+	mkdirSync(dirname(path), { recursive: true });
+	if (existsSync(path) && statSync(path).size >= TELEMETRY_MAX_BYTES) {
+		renameSync(path, getRotatedTelemetryPath(path));
+	}
+	appendFileSync(path, `${JSON.stringify(record)}\n`, "utf-8");
+}
+
+function isTelemetryRecord(value: unknown): value is TelemetryRecord {
+	if (!value || typeof value !== "object") return false;
+	const maybe = value as Partial<TelemetryRecord>;
+	return (
+		maybe.schema === TELEMETRY_SCHEMA &&
+		typeof maybe.sessionId === "string" &&
+		typeof maybe.kind === "string" &&
+		typeof maybe.outcome === "string" &&
+		typeof maybe.latencyMs === "number"
+	);
+}
+
+/** Read the rotated and current telemetry logs, skipping lines that do not parse (e.g. a partial last line). */
+function readTelemetry(path: string): { records: TelemetryRecord[]; error?: string } {
+	const records: TelemetryRecord[] = [];
+	for (const file of [getRotatedTelemetryPath(path), path]) {
+		if (!existsSync(file)) continue;
+		let text: string;
+		try {
+			text = readFileSync(file, "utf-8");
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return { records: [], error: `${file}: ${message}` };
+		}
+		for (const line of text.split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				const parsed: unknown = JSON.parse(line);
+				if (isTelemetryRecord(parsed)) records.push(parsed);
+			} catch {
+				// Partial or foreign line.
+			}
+		}
+	}
+	return { records };
+}
+
+function formatDuration(ms: number): string {
+	return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+/** One `/obs-stats` line: run counts by kind and outcome, latency, usage, context shrink and reflector drops. */
+function formatTelemetryGroup(label: string, records: TelemetryRecord[]): string {
+	const count = (predicate: (record: TelemetryRecord) => boolean) => records.filter(predicate).length;
+	const sum = (values: Array<number | undefined>) => values.reduce<number>((total, value) => total + (value ?? 0), 0);
+	const kinds = (["observer", "reflector", "tree"] as const)
+		.map((kind) => [kind, count((record) => record.kind === kind)] as const)
+		.filter(([, runs]) => runs > 0)
+		.map(([kind, runs]) => `${kind} ${runs}`);
+	const problems = (["fallback", "cancelled", "aborted"] as const)
+		.map((outcome) => [outcome, count((record) => record.outcome === outcome)] as const)
+		.filter(([, runs]) => runs > 0)
+		.map(([outcome, runs]) => `${runs} ${outcome}`);
+
+	const timed = records.filter((record) => record.outcome === "success");
+	const compactions = records.filter(
+		(record) => record.kind === "observer" && record.outcome === "success" && record.tokensBefore !== undefined,
+	);
+	const reflections = records.filter(
+		(record) => record.kind === "reflector" && record.observationsBefore !== undefined,
+	);
+	const reflectedBefore = sum(reflections.map((record) => record.observationsBefore));
+	const reflectedDropped = sum(
+		reflections.map((record) => Math.max(0, (record.observationsBefore ?? 0) - (record.observationsAfter ?? 0))),
+	);
+
+	return [
+		`${label}: ${records.length} runs (${kinds.join(", ")}${problems.length > 0 ? `; ${problems.join(", ")}` : ""})`,
+		...(timed.length > 0
+			? [
+					`avg ${formatDuration(sum(timed.map((record) => record.latencyMs)) / timed.length)}, max ${formatDuration(Math.max(...timed.map((record) => record.latencyMs)))}`,
+				]
+			: []),
+		`in ${formatTokenCount(sum(records.map((record) => record.inputTokens)))} / out ${formatTokenCount(sum(records.map((record) => record.outputTokens)))}`,
+		`$${sum(records.map((record) => record.cost)).toFixed(4)}`,
+		...(compactions.length > 0
+			? [
+					`context ${formatTokenCount(sum(compactions.map((record) => record.tokensBefore)))} → ${formatTokenCount(sum(compactions.map((record) => record.summaryTokens)))}`,
+				]
+			: []),
+		...(reflectedBefore > 0
+			? [
+					`reflector dropped ${reflectedDropped}/${reflectedBefore} lines (${Math.round((reflectedDropped / reflectedBefore) * 100)}%)`,
+				]
+			: []),
+	].join(" · ");
+}
+
+/** Flatten scalar details fields into `path: value` lines; structured observation records are searched separately. */
+function flattenDetails(value: unknown, prefix = ""): string[] {
+	if (value === null || value === undefined) return [];
+	if (typeof value !== "object") return prefix ? [`${prefix}: ${String(value)}`] : [String(value)];
+	if (Array.isArray(value)) {
+		return value.every((item) => item === null || typeof item !== "object")
+			? [`${prefix}: ${value.join(", ")}`]
+			: value.flatMap((item, index) => flattenDetails(item, `${prefix}[${index}]`));
+	}
+	return Object.entries(value).flatMap(([key, item]) =>
+		prefix === "" && key === "observations" ? [] : flattenDetails(item, prefix ? `${prefix}.${key}` : key),
+	);
+}
+
+function buildMemorySearchDocuments(
+	entry: Extract<SessionEntry, { type: "compaction" | "branch_summary" }>,
+): MemorySearchDocument[] {
+	const summary = stripFileTags(entry.summary);
+	const observations =
+		entry.type === "compaction"
+			? readObservationRecords(entry)
+			: parseObservationLines(extractSection(summary, "## Observations", "## Open Threads"));
+
+	return [
+		...observations.map((item) => ({
+			kind: "observation" as const,
+			text: item.body,
+			priority: item.priority,
+			...(item.date ? { date: item.date } : {}),
+			...(item.time ? { time: item.time } : {}),
+		})),
+		...parseOpenThreadLines(extractSection(summary, "## Open Threads", "## Next Action Bias"))
+			.filter((line) => line !== "(none)")
+			.map((text) => ({ kind: "open-thread" as const, text })),
+		...parseNextActionLines(extractSection(summary, "## Next Action Bias", LEGACY_RAW_OUTPUT_HEADING)).map((text) => ({
+			kind: "next-action" as const,
+			text,
+		})),
+		...[...parseTaggedFiles(entry.summary, "read-files")].map((text) => ({ kind: "read-file" as const, text })),
+		...[...parseTaggedFiles(entry.summary, "modified-files")].map((text) => ({
+			kind: "modified-file" as const,
+			text,
+		})),
+		...flattenDetails(entry.details).map((text) => ({ kind: "details" as const, text })),
+	];
+}
+
+/**
+ * Rank lines of compactions and branch summaries against a free-text query. A line needs at least one
+ * query term; score favors covering more terms, the exact phrase, higher priority and newer entries.
+ * Repeats of the same line across entries collapse into the newest one.
+ */
+function searchMemory(
+	entries: SessionEntry[],
+	query: string,
+	options: { activeEntryId?: string; limit: number },
+): { hits: MemorySearchHit[]; total: number; searched: { compactions: number; branchSummaries: number } } {
+	const phrase = query.trim().toLowerCase();
+	const terms = [...new Set(phrase.split(/\s+/).filter((term) => term.length > 0))];
+	const searchable = entries.filter(
+		(entry): entry is Extract<SessionEntry, { type: "compaction" | "branch_summary" }> =>
+			entry.type === "compaction" || entry.type === "branch_summary",
+	);
+	const activeEntry = searchable.find((entry) => entry.id === options.activeEntryId);
+	const activeTexts = new Set(
+		activeEntry ? buildMemorySearchDocuments(activeEntry).map((doc) => `${doc.kind}:${doc.text.toLowerCase()}`) : [],
+	);
+
+	const byText = new Map<string, MemorySearchHit>();
+	searchable.forEach((entry, entryIndex) => {
+		const recency = searchable.length > 1 ? entryIndex / (searchable.length - 1) : 1;
+		for (const doc of buildMemorySearchDocuments(entry)) {
+			const text = doc.text.toLowerCase();
+			const matched = terms.filter((term) => text.includes(term)).length;
+			if (matched === 0) continue;
+
+			const score =
+				(matched / terms.length) * 10 +
+				(terms.length > 1 && text.includes(phrase) ? 5 : 0) +
+				(doc.priority ? priorityRank(doc.priority) : 0) +
+				recency;
+			const dedupeKey = `${doc.kind}:${text}`;
+			const previous = byText.get(dedupeKey);
+			byText.set(dedupeKey, {
+				...doc,
+				entryId: entry.id,
+				entryType: entry.type,
+				timestamp: entry.timestamp,
+				score: Math.max(score, previous?.score ?? 0),
+				occurrences: (previous?.occurrences ?? 0) + 1,
+				active: activeTexts.has(dedupeKey),
+			});
+		}
+	});
+
+	const ranked = [...byText.values()].sort((a, b) => b.score - a.score || b.timestamp.localeCompare(a.timestamp));
+	return {
+		hits: ranked.slice(0, options.limit),
+		total: ranked.length,
+		searched: {
+			compactions: searchable.filter((entry) => entry.type === "compaction").length,
+			branchSummaries: searchable.filter((entry) => entry.type === "branch_summary").length,
+		},
+	};
+}
+
+function formatMemorySearchHit(hit: MemorySearchHit, index: number): string {
+	const label = hit.priority ? priorityEmoji(hit.priority) : `[${hit.kind}]`;
+	const when = [hit.date && hit.date !== "unknown" ? hit.date : undefined, hit.time].filter(Boolean).join(" ");
+	const text = hit.text.length > SEARCH_HIT_MAX_CHARS ? `${hit.text.slice(0, SEARCH_HIT_MAX_CHARS)}…` : hit.text;
+	const source = hit.entryType === "compaction" ? "compaction" : "branch summary";
+	const status = [
+		hit.entryType === "compaction" && hit.kind === "observation" ? (hit.active ? "active" : "pruned") : undefined,
+		hit.occurrences > 1 ? `in ${hit.occurrences} entries` : undefined,
+	].filter(Boolean);
+	return `${index + 1}. ${label} ${when ? `${when} ` : ""}${text} — ${source} ${hit.entryId}${status.length > 0 ? ` (${status.join(", ")})` : ""}`;
+}
 
-	const parsedObservations = parseObservationLines(observationsSection);
-	const reflectedObservations = dedupeAndLimitObservations(parsedObservations, mode === "forced");
+/** Match records by normalized body first, then by id, so `/obs-edit` rewrites show up as edits. */
+function diffObservationRecords(
+	before: ObservationRecord[],
+	after: ObservationRecord[],
+): { lines: CompactionDiffLine[]; unchanged: number } {
+	const beforeByKey = new Map(before.map((record) => [normalizeObservationKey(record.body), record]));
+	const beforeById = new Map(before.map((record) => [record.id, record]));
+	const matched = new Set<ObservationRecord>();
+	const lines: CompactionDiffLine[] = [];
+	let unchanged = 0;
+
+	for (const record of after) {
+		const key = normalizeObservationKey(record.body);
+		const byKey = beforeByKey.get(key);
+		const byId = beforeById.get(record.id);
+		const previous = byKey && !matched.has(byKey) ? byKey : byId && !matched.has(byId) ? byId : undefined;
+		if (!previous) {
+			lines.push({ section: "observations", change: "added", text: record.body, priority: record.priority });
+			continue;
+		}
 
-	const openThreadLines = dedupeTextLines(
-		openThreadsSection
-			.split("\n")
-			.map((line) => line.trim())
-			.filter((line) => line.startsWith("- "))
-			.map((line) => line.replace(/^-\s+/, "").trim()),
-		12,
-	);
+		matched.add(previous);
+		if (normalizeObservationKey(previous.body) !== key) {
+			lines.push({
+				section: "observations",
+				change: "edited",
+				text: record.body,
+				priority: record.priority,
+				previousText: previous.body,
+				previousPriority: previous.priority,
+			});
+		} else if (previous.priority !== record.priority) {
+			lines.push({
+				section: "observations",
+				change: "priority",
+				text: record.body,
+				priority: record.priority,
+				previousPriority: previous.priority,
+			});
+		} else {
+			unchanged += 1;
+		}
+	}
 
-	const nextActionLines = dedupeTextLines(
-		nextActionSection
-			.split("\n")
-			.map((line) => line.trim())
-			.filter((line) => /^\d+\.\s+/.test(line))
-			.map((line) => line.replace(/^\d+\.\s+/, "").trim()),
-		4,
+	for (const record of before) {
+		if (matched.has(record)) continue;
+		lines.push({ section: "observations", change: "removed", text: record.body, priority: record.priority });
+	}
+	return { lines, unchanged };
+}
+
+function diffTextLines(
+	section: CompactionDiffSection,
+	before: Iterable<string>,
+	after: Iterable<string>,
+): { lines: CompactionDiffLine[]; unchanged: number } {
+	const beforeSet = new Set(before);
+	const afterSet = new Set(after);
+	const added = [...afterSet].filter((text) => !beforeSet.has(text));
+	const removed = [...beforeSet].filter((text) => !afterSet.has(text));
+	return {
+		lines: [
+			...added.map((text) => ({ section, change: "added" as const, text })),
+			...removed.map((text) => ({ section, change: "removed" as const, text })),
+		],
+		unchanged: afterSet.size - added.length,
+	};
+}
+
+function readOpenThreads(summary: string): string[] {
+	return parseOpenThreadLines(extractSection(stripFileTags(summary), "## Open Threads", "## Next Action Bias")).filter(
+		(line) => line !== "(none)",
 	);
+}
 
-	const reflected = [
-		"## Observations",
-		"Date: reflected",
-		...(reflectedObservations.length > 0
-			? reflectedObservations.map((item) => {
-					const emoji = item.priority === "red" ? "🔴" : item.priority === "yellow" ? "🟡" : "🟢";
-					return `- ${emoji} ${item.body}`;
-				})
-			: ["- 🟡 No durable observations extracted."]),
-		"",
-		"## Open Threads",
-		...(openThreadLines.length > 0 ? openThreadLines.map((line) => `- ${line}`) : ["- (none)"]),
-		"",
-		"## Next Action Bias",
-		...(nextActionLines.length > 0
-			? nextActionLines.map((line, index) => `${index + 1}. ${line}`)
-			: ["1. Continue from the latest user request and retained recent context."]),
-	].join("\n");
+/** Compare the parsed observations, open threads and file tags of two compaction entries. */
+function diffCompactions(before: CompactionEntry, after: CompactionEntry): CompactionDiff {
+	const beforeRecords = readObservationRecords(before);
+	const afterRecords = readObservationRecords(after);
+	const parts = [
+		diffObservationRecords(beforeRecords, afterRecords),
+		diffTextLines("open-threads", readOpenThreads(before.summary), readOpenThreads(after.summary)),
+		diffTextLines(
+			"read-files",
+			parseTaggedFiles(before.summary, "read-files"),
+			parseTaggedFiles(after.summary, "read-files"),
+		),
+		diffTextLines(
+			"modified-files",
+			parseTaggedFiles(before.summary, "modified-files"),
+			parseTaggedFiles(after.summary, "modified-files"),
+		),
+	];
 
 	return {
-		summary: reflected,
-		before: parsedObservations.length,
-		after: reflectedObservations.length,
-		dropped: Math.max(0, parsedObservations.length - reflectedObservations.length),
+		from: { id: before.id, timestamp: before.timestamp, observations: beforeRecords.length },
+		to: { id: after.id, timestamp: after.timestamp, observations: afterRecords.length },
+		lines: parts.flatMap((part) => part.lines),
+		unchanged: parts.reduce((sum, part) => sum + part.unchanged, 0),
 	};
 }
 
+function formatCompactionDiffLine(line: CompactionDiffLine): string {
+	const emoji = line.priority ? `${priorityEmoji(line.priority)} ` : "";
+	switch (line.change) {
+		case "added":
+			return `+ ${emoji}${line.text}`;
+		case "removed":
+			return `- ${emoji}${line.text}`;
+		case "priority":
+			return `~ ${line.previousPriority ? priorityEmoji(line.previousPriority) : "?"}→${emoji}${line.text}`;
+		case "edited":
+			return `~ ${line.previousPriority && line.previousPriority !== line.priority ? `${priorityEmoji(line.previousPriority)}→` : ""}${emoji}${line.text} (was: ${line.previousText ?? ""})`;
+	}
+}
+
+function formatCompactionDiffCounts(diff: CompactionDiff): string {
+	const count = (change: CompactionDiffLine["change"]) => diff.lines.filter((line) => line.change === change).length;
+	return `+${count("added")} -${count("removed")} ~${count("edited") + count("priority")}, ${diff.unchanged} unchanged`;
+}
+
+/**
+ * Resolve a `/obs-diff` operand: a compaction id, or how many compactions back from the latest (0 = latest).
+ * Returns the index into `compactions` (oldest first).
+ */
+function resolveCompactionRef(compactions: CompactionEntry[], token: string): number | undefined {
+	const byId = compactions.findIndex((entry) => entry.id === token);
+	if (byId >= 0) return byId;
+	if (!/^\d+$/.test(token)) return undefined;
+	const index = compactions.length - 1 - Number.parseInt(token, 10);
+	return index >= 0 ? index : undefined;
+}
+
 function buildCompactionPrompt(
 	conversationText: string,
 	options: {
@@ -546,6 +2836,7 @@ function buildCompactionPrompt(
 		customInstructions?: string;
 		isSplitTurn: boolean;
 		forceReflect: boolean;
+		chunk?: { index: number; total: number; rebuild: boolean };
 	},
 ): string {
 	const previousSummaryBlock = options.previousSummary
@@ -560,6 +2851,12 @@ function buildCompactionPrompt(
 		? "FORCED REFLECTOR MODE: aggressively deduplicate observations and prune stale low-priority context."
 		: "";
 
+	const chunkNote = !options.chunk
+		? ""
+		: options.chunk.rebuild
+			? `REBUILD MODE: this is chunk ${options.chunk.index + 1} of ${options.chunk.total} of the full raw session history, in chronological order. Merge it into the previous observations (built from earlier chunks only).`
+			: `CHUNKED MODE: this is chunk ${options.chunk.index + 1} of ${options.chunk.total} of the new conversation, in chronological order. Merge it into the previous observations (which already include the earlier chunks).`;
+
 	const customInstructionsBlock = options.customInstructions
 		? `\n\nAdditional focus from user:\n${options.customInstructions}`
 		: "";
@@ -580,17 +2877,19 @@ Rules:
    - 🟡 important but possibly evolving context
    - 🟢 low-priority informational context
 3) Every bullet must be grounded in the provided conversation or previous observations. Never invent file names, commands, errors, dates, or timestamps.
-4) If exact dates/times are not explicitly present, use "Date: unknown" and omit HH:mm prefixes.
+4) Each conversation block starts with an [entry:<id> | YYYY-MM-DD HH:mm] tag. Group bullets under one "Date: YYYY-MM-DD" header per day, oldest day first, and start each bullet with the HH:mm of the entry it came from. Keep the Date headers and times of previous observations. Only for blocks without a time, use "Date: unknown" and omit the HH:mm prefix.
 5) Keep each bullet single-line and concrete.
 6) Do not answer the user. Do not continue the conversation.
+7) End every bullet drawn from the conversation with [src: <id>, <id>] listing the entry ids it came from. Bullets carried over unchanged from previous observations need no tag.
 
 Required output format:
 
 ## Observations
-Date: unknown
-- 🔴 [observation]
-- 🟡 [observation]
-- 🟢 [observation]
+Date: YYYY-MM-DD
+- 🔴 HH:mm [observation] [src: <entry id>]
+- 🟡 HH:mm [observation] [src: <entry id>, <entry id>]
+Date: YYYY-MM-DD
+- 🟢 HH:mm [observation] [src: <entry id>]
 
 ## Open Threads
 - [unfinished work item]
@@ -602,12 +2901,59 @@ Date: unknown
 
 ${splitTurnNote}
 ${forceReflectNote}
+${chunkNote}
 
 ${previousSummaryBlock}<conversation>
 ${conversationText}
 </conversation>${customInstructionsBlock}`;
 }
 
+function buildReflectionPrompt(
+	observations: string,
+	options: {
+		mode: ReflectionMode;
+		customInstructions?: string;
+		pinned?: PinnedObservation[];
+	},
+): string {
+	const modeNote =
+		options.mode === "forced"
+			? "FORCED REFLECTION: prune aggressively. Keep every 🔴 fact, but cut 🟡/🟢 lines that are stale, resolved, or low value."
+			: options.mode === "rebuild"
+				? "REBUILD REFLECTION: the log was just rebuilt from the full raw history. Consolidate it into one coherent, non-repetitive log."
+				: "THRESHOLD REFLECTION: the observation log grew past its token budget. Shrink it while keeping everything still relevant.";
+
+	const customInstructionsBlock = options.customInstructions
+		? `\n\nAdditional focus from user:\n${options.customInstructions}`
+		: "";
+
+	const pinnedNote =
+		options.pinned && options.pinned.length > 0
+			? `PINNED: the user pinned these observations. Keep each one verbatim, with its priority, and never merge it into another line:\n${options.pinned.map((pin) => formatObservationLine({ ...pin, sources: undefined })).join("\n")}`
+			: "";
+
+	return `You are the reflector stage of an observational memory system for a coding agent.
+
+You receive the current observation log. Rewrite it into a shorter log that carries the same durable knowledge.
+
+Rules:
+1) Output ONLY markdown in the same three-section structure as the input (## Observations, ## Open Threads, ## Next Action Bias).
+2) Merge observations that state the same fact in different words into one line, keeping the highest priority.
+3) When a later observation supersedes an earlier one (changed decision, fixed error, renamed file, updated value), keep only the current fact.
+4) Compress closely related lines about the same file, API, or task into one concrete line.
+5) Drop open threads that the observations show as finished. Keep at most 4 next actions.
+6) Never add facts, file names, commands, errors, dates, or timestamps that are not in the input. Keep existing "Date:" headers and HH:mm prefixes.
+7) Keep each bullet single-line, with an emoji priority: 🔴 critical, 🟡 important, 🟢 informational.
+8) Keep trailing [src: ...] tags. When merging bullets, combine their ids into one tag.
+
+${modeNote}
+${pinnedNote}
+
+<observations>
+${observations}
+</observations>${customInstructionsBlock}`;
+}
+
 function buildTreePrompt(
 	conversationText: string,
 	options: {
@@ -630,80 +2976,813 @@ Rules:
 - Preserve critical file paths, decisions, blockers, and requirements.
 - Use priorities: 🔴 critical, 🟡 important, 🟢 informational.
 - Every bullet must be grounded in the provided conversation. Never invent file names, commands, errors, dates, or timestamps.
-- If exact dates/times are not explicitly present, use "Date: unknown" and omit HH:mm prefixes.
+- Each conversation block starts with an [entry:<id> | YYYY-MM-DD HH:mm] tag. Group bullets under one "Date: YYYY-MM-DD" header per day, oldest day first, and start each bullet with the HH:mm of the entry it came from. Only for blocks without a time, use "Date: unknown" and omit the HH:mm prefix.
 - Output ONLY markdown in this exact structure:
 
-## Observations
-Date: unknown
-- 🔴 [observation]
-- 🟡 [observation]
-- 🟢 [observation]
+## Observations
+Date: YYYY-MM-DD
+- 🔴 HH:mm [observation]
+- 🟡 HH:mm [observation]
+Date: YYYY-MM-DD
+- 🟢 HH:mm [observation]
+
+## Open Threads
+- [unfinished work item]
+- [or "(none)"]
+
+## Next Action Bias
+1. [most likely immediate next action]
+2. [optional second action]
+
+<conversation>
+${conversationText}
+</conversation>${customInstructionsBlock}`;
+}
+
+function buildRepairPrompt(summary: string, warnings: string[]): string {
+	return `You are the format repair stage of an observational memory system for a coding agent.
+
+The text below is an observation log that breaks the required format:
+${capFormatWarnings(warnings)
+	.map((warning) => `- ${warning}`)
+	.join("\n")}
+
+Rewrite it into the required format. Do not add, drop, or reword facts.
+
+Rules:
+1) Output ONLY markdown with exactly these sections, once each, in this order: ## Observations, ## Open Threads, ## Next Action Bias.
+2) Under ## Observations, only "Date: YYYY-MM-DD" (or "Date: unknown") header lines and single-line bullets of the form "- <emoji> HH:mm <observation>", with an emoji priority: 🔴 critical, 🟡 important, 🟢 informational. Omit HH:mm when the line has no time.
+3) Keep existing Date headers, HH:mm prefixes and trailing [src: ...] tags.
+4) Open threads are "- " bullets ("- (none)" when there are none); next actions are numbered "1.", "2.", ...
+
+<observations>
+${summary}
+</observations>`;
+}
+
+function createSummarizerUsage(): SummarizerUsage {
+	return { calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0, cost: 0 };
+}
+
+/**
+ * Add one response to a tally. pi-ai reports reasoning inside `output`, so the reasoning share is
+ * estimated from the returned thinking text (providers that hide their reasoning report none).
+ */
+function addSummarizerUsage(total: SummarizerUsage, usage: Usage | undefined, reasoningTokens = 0): void {
+	total.calls += 1;
+	total.input += usage?.input ?? 0;
+	total.output += usage?.output ?? 0;
+	total.cacheRead += usage?.cacheRead ?? 0;
+	total.cacheWrite += usage?.cacheWrite ?? 0;
+	total.reasoning += reasoningTokens;
+	total.cost += usage?.cost?.total ?? 0;
+}
+
+function sumSummarizerUsage(usages: SummarizerUsage[]): SummarizerUsage {
+	const total = createSummarizerUsage();
+	for (const usage of usages) {
+		total.calls += usage.calls;
+		total.input += usage.input;
+		total.output += usage.output;
+		total.cacheRead += usage.cacheRead;
+		total.cacheWrite += usage.cacheWrite;
+		total.reasoning += usage.reasoning;
+		total.cost += usage.cost;
+	}
+	return total;
+}
+
+/** Usage stored in compaction/branch summary details; entries written before it was recorded have none. */
+function readSummarizerUsage(details: { usage?: unknown }): SummarizerUsage | undefined {
+	const usage = details.usage;
+	if (!usage || typeof usage !== "object") return undefined;
+	const maybe = usage as Record<string, unknown>;
+	const fields = ["calls", "input", "output", "cacheRead", "cacheWrite", "reasoning", "cost"] as const;
+	return fields.every((field) => typeof maybe[field] === "number") ? (usage as SummarizerUsage) : undefined;
+}
+
+/** Total usage of the compactions and branch summaries on a branch that recorded it. */
+function sumBranchUsage(branchEntries: SessionEntry[]): SummarizerUsage | undefined {
+	const usages = branchEntries.flatMap((entry) => {
+		const details =
+			entry.type === "compaction" && isObservationalCompactionDetails(entry.details)
+				? entry.details
+				: entry.type === "branch_summary" && isObservationalBranchDetails(entry.details)
+					? entry.details
+					: undefined;
+		const usage = details ? readSummarizerUsage(details) : undefined;
+		return usage ? [usage] : [];
+	});
+	return usages.length > 0 ? sumSummarizerUsage(usages) : undefined;
+}
+
+function createSummarizerLedger(): SummarizerLedger {
+	return { usage: createSummarizerUsage(), attempts: [], format: { warnings: [] } };
+}
+
+function createSummarizerRun(
+	role: SummarizerRole,
+	resolution: RoleModelResolution,
+	policy: SummarizerPolicy,
+	ledger: SummarizerLedger,
+	hooks: Pick<SummarizerRun, "onAttempt" | "onRepair"> = {},
+): SummarizerRun {
+	return {
+		role,
+		models: resolution.candidates,
+		failures: resolution.failures,
+		policy,
+		usage: ledger.usage,
+		attempts: ledger.attempts,
+		format: ledger.format,
+		...hooks,
+	};
+}
+
+/** Details fields for the combined format reports of a compaction's stages. */
+function formatReportDetails(
+	reports: SummaryFormatReport[],
+): Pick<ObservationalCompactionDetails, "formatWarnings" | "formatRepair"> {
+	const warnings = reports.flatMap((report) => report.warnings);
+	const repairs: SummaryRepair[] = ["salvaged", "model", "deterministic"];
+	const repair = repairs.find((level) => reports.some((report) => report.repair === level));
+	return {
+		...(warnings.length > 0 ? { formatWarnings: capFormatWarnings(warnings) } : {}),
+		...(repair ? { formatRepair: repair } : {}),
+	};
+}
+
+function isTransientSummarizerError(message: string | undefined): boolean {
+	return message !== undefined && TRANSIENT_ERROR_RE.test(message);
+}
+
+function waitForRetry(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (ms <= 0 || signal.aborted) {
+			resolve();
+			return;
+		}
+		const done = () => {
+			clearTimeout(timer);
+			signal.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal.addEventListener("abort", done, { once: true });
+	});
+}
+
+/** `reflector openai/gpt-5-mini attempt 1: timeout (timed out after 180s), retrying in 2s` */
+function formatSummarizerAttempt(attempt: SummarizerAttempt): string {
+	const head = `${attempt.role} ${attempt.model} attempt ${attempt.attempt}: ${attempt.outcome}`;
+	const detail =
+		attempt.outcome === "ok" ? ` in ${formatDuration(attempt.latencyMs)}` : attempt.error ? ` (${attempt.error})` : "";
+	const next =
+		attempt.next === "retry"
+			? attempt.retryInMs
+				? `, retrying in ${formatDuration(attempt.retryInMs)}`
+				: ", retrying"
+			: attempt.next === "fallback"
+				? ", falling back to the next model"
+				: attempt.next === "give-up"
+					? ", giving up"
+					: "";
+	return `${head}${detail}${next}`;
+}
+
+/** The latest failed summarizer run recorded on a branch. */
+function readLastSummarizerFailure(branchEntries: SessionEntry[]): SummarizerFailure | undefined {
+	const entry = [...branchEntries]
+		.reverse()
+		.find((candidate) => candidate.type === "custom" && candidate.customType === FAILURE_ENTRY_TYPE);
+	const data = entry?.type === "custom" ? (entry.data as Partial<SummarizerFailure> | undefined) : undefined;
+	if (!data || typeof data.error !== "string" || typeof data.at !== "string" || !Array.isArray(data.attempts)) {
+		return undefined;
+	}
+	return { kind: data.kind ?? "observer", at: data.at, error: data.error, attempts: data.attempts };
+}
+
+/** Status lines for details `attempts`: the count, plus every attempt when any of them failed. */
+function formatAttemptLines(attempts: SummarizerAttempt[] | undefined): string[] {
+	if (!Array.isArray(attempts) || attempts.length === 0) return [];
+	const failed = attempts.filter((attempt) => attempt.outcome !== "ok").length;
+	if (failed === 0) return [`  attempts: ${attempts.length}`];
+	return [
+		`  attempts: ${attempts.length} (${failed} failed)`,
+		...attempts.map((attempt) => `    ${formatSummarizerAttempt(attempt)}`),
+	];
+}
+
+function readFormatReport(details: {
+	formatWarnings?: unknown;
+	formatRepair?: unknown;
+}): Pick<ObservationalCompactionDetails, "formatWarnings" | "formatRepair"> {
+	const warnings = Array.isArray(details.formatWarnings)
+		? details.formatWarnings.filter((warning): warning is string => typeof warning === "string")
+		: [];
+	const repair = ["deterministic", "model", "salvaged"].find((level) => level === details.formatRepair) as
+		| SummaryRepair
+		| undefined;
+	return {
+		...(warnings.length > 0 ? { formatWarnings: warnings } : {}),
+		...(repair ? { formatRepair: repair } : {}),
+	};
+}
+
+/** Status lines for details `formatWarnings` / `formatRepair`; nothing when every output was valid. */
+function formatFormatLines(details: { formatWarnings?: unknown; formatRepair?: unknown }): string[] {
+	const { formatWarnings, formatRepair } = readFormatReport(details);
+	if (!formatWarnings) return [];
+	return [
+		`  format: ${formatRepair ? `${formatRepair} repair` : "not repaired"} (${formatWarnings.length} warnings)`,
+		...formatWarnings.map((warning) => `    ${warning}`),
+	];
+}
+
+/**
+ * One completion with its own timeout. The call's signal aborts with the event `signal` or when
+ * `timeoutMs` elapses; the caller tells the two apart by checking `signal.aborted`.
+ */
+async function runSummarizerAttempt(
+	candidate: ResolvedRoleModel,
+	promptText: string,
+	maxTokens: number,
+	signal: AbortSignal,
+	timeoutMs: number,
+	usage: SummarizerUsage,
+): Promise<{ outcome: SummarizerAttempt["outcome"]; text: string; error?: string }> {
+	const controller = new AbortController();
+	const abort = () => controller.abort();
+	if (signal.aborted) abort();
+	signal.addEventListener("abort", abort, { once: true });
+	let timedOut = false;
+	const timer =
+		timeoutMs > 0
+			? setTimeout(() => {
+					timedOut = true;
+					controller.abort();
+				}, timeoutMs)
+			: undefined;
+	const timeout = { outcome: "timeout" as const, text: "", error: `timed out after ${formatDuration(timeoutMs)}` };
+
+	try {
+		const response = await completeSimple(
+			candidate.model,
+			{
+				systemPrompt: OBS_SUMMARIZATION_SYSTEM_PROMPT,
+				messages: [
+					{
+						role: "user",
+						content: [{ type: "text", text: promptText }],
+						timestamp: Date.now(),
+					},
+				],
+			},
+			{ apiKey: candidate.apiKey, maxTokens, signal: controller.signal, reasoning: "high" },
+		);
+		const thinking = response.content
+			.filter((part): part is { type: "thinking"; thinking: string } => part.type === "thinking")
+			.map((part) => part.thinking)
+			.join("\n");
+		addSummarizerUsage(
+			usage,
+			response.usage,
+			thinking ? estimateTextTokens(thinking, resolveTokenCounter(candidate.model)) : 0,
+		);
+
+		if (timedOut) return timeout;
+		if (response.stopReason === "error") {
+			return { outcome: "error", text: "", error: response.errorMessage || "Unknown error" };
+		}
+		if (response.stopReason === "aborted") {
+			return { outcome: "error", text: "", error: "aborted" };
+		}
+		if (response.stopReason === "toolUse") {
+			return { outcome: "error", text: "", error: "unexpectedly requested tool use" };
+		}
+
+		const text = response.content
+			.filter((part): part is { type: "text"; text: string } => part.type === "text")
+			.map((part) => part.text)
+			.join("\n")
+			.trim();
+		return text.length > 0 ? { outcome: "ok", text } : { outcome: "empty", text: "", error: "empty output" };
+	} catch (error) {
+		if (timedOut) return timeout;
+		return { outcome: "error", text: "", error: error instanceof Error ? error.message : String(error) };
+	} finally {
+		clearTimeout(timer);
+		signal.removeEventListener("abort", abort);
+	}
+}
+
+/**
+ * Run one summarizer call under the run's policy. Each model gets up to `retries` retries after a
+ * timeout or transient provider error (exponential backoff) or an empty answer (immediate, with a
+ * stricter prompt); other errors, and exhausted retries, fall back to the next model in the chain.
+ * Once a fallback has answered, later calls of the run try it first, then the rest in chain order.
+ * Every attempt is appended to `run.attempts` and passed to `run.onAttempt`.
+ */
+async function summarizeWithModel(
+	run: SummarizerRun,
+	promptText: string,
+	maxTokens: number,
+	signal: AbortSignal,
+): Promise<string> {
+	if (run.models.length === 0) {
+		throw new Error(`No usable ${run.role} model (${run.failures.join("; ")})`);
+	}
+
+	const errors: string[] = [];
+	const models = run.current
+		? [run.current, ...run.models.filter((candidate) => candidate !== run.current)]
+		: run.models;
+	for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+		const candidate = models[modelIndex];
+		let inputPrompt = promptText;
+		for (let attempt = 1; attempt <= run.policy.retries + 1; attempt++) {
+			const startedAt = Date.now();
+			const result = await runSummarizerAttempt(
+				candidate,
+				inputPrompt,
+				maxTokens,
+				signal,
+				run.policy.timeoutMs,
+				run.usage,
+			);
+			if (signal.aborted) throw new Error("Summarization aborted");
+
+			const record: SummarizerAttempt = {
+				role: run.role,
+				model: buildModelRef(candidate.model),
+				attempt,
+				outcome: result.outcome,
+				latencyMs: Date.now() - startedAt,
+				...(result.error ? { error: result.error } : {}),
+			};
+			if (result.outcome === "ok") {
+				run.attempts.push(record);
+				run.onAttempt?.(record);
+				run.current = candidate;
+				return result.text;
+			}
+
+			const retryable = result.outcome !== "error" || isTransientSummarizerError(result.error);
+			const retry = retryable && attempt <= run.policy.retries;
+			const retryInMs = retry && result.outcome !== "empty" ? run.policy.backoffMs * 2 ** (attempt - 1) : 0;
+			record.next = retry ? "retry" : modelIndex < models.length - 1 ? "fallback" : "give-up";
+			if (retryInMs > 0) record.retryInMs = retryInMs;
+			run.attempts.push(record);
+			run.onAttempt?.(record);
+			errors.push(`${record.model}: ${record.error ?? record.outcome}`);
+			if (!retry) break;
+
+			if (result.outcome === "empty") inputPrompt = `${promptText}${SUMMARIZER_EMPTY_RETRY_SUFFIX}`;
+			await waitForRetry(retryInMs, signal);
+		}
+	}
+
+	throw new Error(
+		`Summarization failed after ${errors.length} ${errors.length === 1 ? "attempt" : "attempts"} (${errors.join("; ")})`,
+	);
+}
+
+/**
+ * Make a summarizer output pass `validateSummary()` before anything stores or reuses it: valid output
+ * passes through; otherwise the deterministic repair, then one repair call on the run's models, then
+ * (with `salvage`) `salvageSummary()`. Without `salvage`, output that stays invalid throws instead.
+ * Warnings and the repair level go to `run.format`.
+ */
+async function enforceSummaryFormat(
+	run: SummarizerRun,
+	raw: string,
+	maxTokens: number,
+	signal: AbortSignal,
+	options: { salvage: boolean },
+): Promise<string> {
+	const text = raw.trim();
+	const warnings = validateSummary(text);
+	if (warnings.length === 0) return text;
+
+	const record = (repair: SummaryRepair, extra: string[] = []) => {
+		const order: SummaryRepair[] = ["deterministic", "model", "salvaged"];
+		run.format.warnings.push(...[...warnings, ...extra].map((warning) => `${run.role}: ${warning}`));
+		if (!run.format.repair || order.indexOf(repair) > order.indexOf(run.format.repair)) run.format.repair = repair;
+		run.onRepair?.(repair, warnings);
+	};
+
+	const repaired = repairSummary(text);
+	const remaining = repaired ? validateSummary(repaired) : warnings;
+	if (repaired && remaining.length === 0) {
+		record("deterministic");
+		return repaired;
+	}
+
+	let repairError: string | undefined;
+	try {
+		const output = await summarizeWithModel(run, buildRepairPrompt(repaired ?? text, remaining), maxTokens, signal);
+		const modelRepaired = validateSummary(output).length === 0 ? output.trim() : repairSummary(output);
+		if (modelRepaired && validateSummary(modelRepaired).length === 0) {
+			record("model");
+			return modelRepaired;
+		}
+		repairError = "repair call output still invalid";
+	} catch (error) {
+		if (signal.aborted) throw error;
+		repairError = `repair call failed: ${error instanceof Error ? error.message : String(error)}`;
+	}
+
+	if (!options.salvage) {
+		run.format.warnings.push(...[...warnings, repairError].map((warning) => `${run.role}: ${warning}`));
+		throw new Error(`${run.role} output failed format validation (${warnings.length} issues; ${repairError})`);
+	}
+	record("salvaged", [repairError]);
+	return salvageSummary(text);
+}
+
+function countParsedObservations(summary: string): number {
+	return parseObservationLines(extractSection(summary, "## Observations", "## Open Threads")).length;
+}
+
+/**
+ * Reflector stage: the reflector model merges paraphrases, folds superseded facts and compresses related
+ * lines, then the deterministic `reflectSummary()` heuristic runs over its output as a post-pass.
+ * Without a usable reflector model, or when that call fails, the heuristic runs on the observer output alone.
+ */
+async function reflectObservations(
+	summary: string,
+	mode: ReflectionMode,
+	reflector: SummarizerRun,
+	maxTokens: number,
+	signal: AbortSignal,
+	options: {
+		similarityThreshold: number;
+		pinned: PinnedObservation[];
+		customInstructions?: string;
+		caps?: ReflectorCaps;
+		forcedCaps?: ReflectorCaps;
+	},
+): Promise<ReflectorStageResult> {
+	if (mode === "none") {
+		return { ...reflectSummary(summary, mode), droppedByLlm: 0, droppedByHeuristic: 0 };
+	}
+
+	const before = countParsedObservations(summary);
+	let llmSummary = summary;
+	let llmError: string | undefined;
+
+	if (reflector.models.length > 0) {
+		try {
+			const promptText = buildReflectionPrompt(summary, {
+				mode,
+				customInstructions: options.customInstructions,
+				pinned: options.pinned,
+			});
+			const output = await summarizeWithModel(reflector, promptText, maxTokens, signal);
+			llmSummary = await enforceSummaryFormat(reflector, output, maxTokens, signal, { salvage: false });
+		} catch (error) {
+			if (signal.aborted) throw error;
+			llmError = error instanceof Error ? error.message : String(error);
+		}
+	} else {
+		llmError = `no usable reflector model (${reflector.failures.join("; ")})`;
+	}
+
+	const afterLlm = llmSummary === summary ? before : countParsedObservations(llmSummary);
+	const heuristic = reflectSummary(llmSummary, mode, {
+		similarityThreshold: options.similarityThreshold,
+		pinnedKeys: pinnedObservationKeys(options.pinned),
+		caps: options.caps,
+		forcedCaps: options.forcedCaps,
+	});
+
+	return {
+		summary: heuristic.summary,
+		before,
+		after: heuristic.after,
+		dropped: Math.max(0, before - heuristic.after),
+		droppedByLlm: Math.max(0, before - afterLlm),
+		droppedByHeuristic: heuristic.dropped,
+		merged: heuristic.merged,
+		reflectorModel: !llmError && reflector.current ? buildModelRef(reflector.current.model) : undefined,
+		llmError,
+	};
+}
+
+function entriesBeforeKept(branchEntries: SessionEntry[], firstKeptEntryId: string): SessionEntry[] {
+	const keptIndex = branchEntries.findIndex((entry) => entry.id === firstKeptEntryId);
+	return keptIndex === -1 ? branchEntries : branchEntries.slice(0, keptIndex);
+}
+
+function chunkMessagesByTokens(messages: AgentMessage[], tokenBudget: number, counter: TokenCounter): AgentMessage[][] {
+	const chunks: AgentMessage[][] = [];
+	let current: AgentMessage[] = [];
+	let currentTokens = 0;
+
+	for (const message of messages) {
+		const tokens = estimateMessageTokens(message, counter);
+		if (current.length > 0 && currentTokens + tokens > tokenBudget) {
+			chunks.push(current);
+			current = [];
+			currentTokens = 0;
+		}
+		current.push(message);
+		currentTokens += tokens;
+	}
+
+	if (current.length > 0) chunks.push(current);
+	return chunks;
+}
+
+/** Local `YYYY-MM-DD HH:mm`, matching the `Date:` headers and line prefixes of the observation format. */
+function formatEntryTime(timestamp: string | number): string | undefined {
+	const date = new Date(timestamp);
+	if (Number.isNaN(date.getTime())) return undefined;
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Pair messages with the session entries they were built from: message entries by identity,
+ * synthesized custom/summary messages by timestamp.
+ */
+function tagMessagesWithEntryIds(
+	messages: AgentMessage[],
+	entries: SessionEntry[],
+): Array<{ message: AgentMessage; entryId?: string; timestamp?: string | number }> {
+	const byMessage = new Map<AgentMessage, SessionEntry>();
+	const byTimestamp = new Map<number, SessionEntry>();
+	for (const entry of entries) {
+		if (entry.type === "message") {
+			byMessage.set(entry.message, entry);
+		} else if (entry.type === "custom_message" || entry.type === "branch_summary" || entry.type === "compaction") {
+			byTimestamp.set(new Date(entry.timestamp).getTime(), entry);
+		}
+	}
+
+	return messages.map((message) => {
+		const messageTimestamp =
+			"timestamp" in message && typeof message.timestamp === "number" ? message.timestamp : undefined;
+		const entry =
+			byMessage.get(message) ?? (messageTimestamp !== undefined ? byTimestamp.get(messageTimestamp) : undefined);
+		return { message, entryId: entry?.id, timestamp: entry?.timestamp ?? messageTimestamp };
+	});
+}
+
+/**
+ * `serializeConversation()` per message, each block prefixed with an `[entry:<id> | YYYY-MM-DD HH:mm]`
+ * tag carrying provenance and time.
+ */
+function serializeTaggedConversation(messages: AgentMessage[], entries: SessionEntry[]): string {
+	return tagMessagesWithEntryIds(messages, entries)
+		.map(({ message, entryId, timestamp }) => {
+			const text = serializeConversation(convertToLlm([message]));
+			if (!text) return "";
+			const time = timestamp !== undefined ? formatEntryTime(timestamp) : undefined;
+			const tag = [entryId ? `entry:${entryId}` : undefined, time].filter(Boolean).join(" | ");
+			return tag ? `[${tag}]\n${text}` : text;
+		})
+		.filter((block) => block.length > 0)
+		.join("\n\n");
+}
+
+function isCommandContext(ctx: ExtensionContext): ctx is ExtensionCommandContext {
+	return "navigateTree" in ctx;
+}
+
+function describeSessionEntry(entry: SessionEntry): string {
+	let label: string = entry.type;
+	let text = "";
+	switch (entry.type) {
+		case "message": {
+			const message = entry.message;
+			label = message.role === "toolResult" ? `toolResult(${message.toolName})` : message.role;
+			text = serializeConversation(convertToLlm([message]));
+			break;
+		}
+		case "custom_message":
+			label = `custom(${entry.customType})`;
+			text =
+				typeof entry.content === "string"
+					? entry.content
+					: entry.content
+							.filter((part): part is { type: "text"; text: string } => part.type === "text")
+							.map((part) => part.text)
+							.join(" ");
+			break;
+		case "compaction":
+		case "branch_summary":
+			text = entry.summary;
+			break;
+	}
+
+	const preview = text.replace(/\s+/g, " ").trim();
+	const clipped = preview.length > TRACE_PREVIEW_CHARS ? `${preview.slice(0, TRACE_PREVIEW_CHARS)}…` : preview;
+	return `${label} @ ${entry.timestamp}${clipped ? `: ${clipped}` : ""}`;
+}
 
-## Open Threads
-- [unfinished work item]
-- [or "(none)"]
+/**
+ * The project memory message added by `before_agent_start` is kept out of observer input: observing it
+ * again would merge its facts back as new sightings, and stale project facts would never age out.
+ */
+function isProjectMemoryMessage(message: AgentMessage): boolean {
+	return message.role === "custom" && message.customType === PROJECT_MEMORY_MESSAGE_TYPE;
+}
 
-## Next Action Bias
-1. [most likely immediate next action]
-2. [optional second action]
+function isProjectMemoryEntry(entry: SessionEntry): boolean {
+	return entry.type === "custom_message" && entry.customType === PROJECT_MEMORY_MESSAGE_TYPE;
+}
 
-<conversation>
-${conversationText}
-</conversation>${customInstructionsBlock}`;
+/**
+ * Conversation tokens per observer prompt, leaving room for the output, previous observations and instructions.
+ * Sized by the smallest context window among the run's candidates, so a fallback model can take any chunk.
+ */
+function getObserverChunkBudget(
+	candidates: ResolvedRoleModel[],
+	maxTokens: number,
+	previousObservationTokens: number,
+): number {
+	const contextWindow = Math.min(...candidates.map((candidate) => candidate.model.contextWindow));
+	return Math.max(
+		OBSERVER_MIN_CHUNK_TOKENS,
+		Math.floor((contextWindow - maxTokens) * OBSERVER_CHUNK_CONTEXT_RATIO) - previousObservationTokens,
+	);
 }
 
-async function summarizeWithModel(
-	model: Model<any>,
-	apiKey: string,
-	promptText: string,
+/**
+ * Observe chunks in chronological order, carrying the observation log forward so each prompt
+ * merges one chunk into everything observed before it. Checks `signal` between chunks.
+ */
+async function observeChunks(
+	chunks: AgentMessage[][],
+	entries: SessionEntry[],
+	run: SummarizerRun,
 	maxTokens: number,
 	signal: AbortSignal,
+	options: {
+		previousSummary?: string;
+		customInstructions?: string;
+		isSplitTurn: boolean;
+		forceReflect: boolean;
+		rebuild: boolean;
+		onChunk?: (chunkIndex: number, chunkCount: number) => void;
+	},
 ): Promise<string> {
-	const runSummarization = async (inputPrompt: string): Promise<string> => {
-		const response = await completeSimple(
-			model,
-			{
-				systemPrompt: OBS_SUMMARIZATION_SYSTEM_PROMPT,
-				messages: [
-					{
-						role: "user",
-						content: [{ type: "text", text: inputPrompt }],
-						timestamp: Date.now(),
-					},
-				],
-			},
-			{ apiKey, maxTokens, signal, reasoning: "high" },
-		);
+	let observations = options.previousSummary;
+	for (let index = 0; index < chunks.length; index++) {
+		if (signal.aborted) throw new Error("Observation aborted");
+		options.onChunk?.(index, chunks.length);
+
+		const isLast = index === chunks.length - 1;
+		const promptText = buildCompactionPrompt(serializeTaggedConversation(chunks[index], entries), {
+			previousSummary: observations,
+			customInstructions: options.customInstructions,
+			isSplitTurn: options.isSplitTurn && isLast,
+			forceReflect: options.forceReflect && isLast,
+			chunk:
+				chunks.length > 1 || options.rebuild ? { index, total: chunks.length, rebuild: options.rebuild } : undefined,
+		});
+		const output = await summarizeWithModel(run, promptText, maxTokens, signal);
+		observations = await enforceSummaryFormat(run, output, maxTokens, signal, { salvage: true });
+	}
 
-		if (response.stopReason === "error") {
-			throw new Error(`Summarization failed: ${response.errorMessage || "Unknown error"}`);
-		}
-		if (response.stopReason === "aborted") {
-			throw new Error("Summarization aborted");
-		}
-		if (response.stopReason === "toolUse") {
-			throw new Error("Summarization unexpectedly requested tool use");
-		}
+	return observations ?? normalizeSummary("");
+}
 
-		return response.content
-			.filter((part): part is { type: "text"; text: string } => part.type === "text")
-			.map((part) => part.text)
-			.join("\n")
-			.trim();
-	};
+/**
+ * Re-observe raw branch history from scratch, ignoring every previous compaction summary.
+ * Messages are gathered with `prepareBranchEntries()` (tool results skipped, like tree summaries),
+ * split into chronological chunks sized for the model context, and folded into one observation log.
+ */
+async function rebuildObservations(
+	entries: SessionEntry[],
+	run: SummarizerRun,
+	maxTokens: number,
+	signal: AbortSignal,
+	options: {
+		customInstructions?: string;
+		onChunk?: (chunkIndex: number, chunkCount: number) => void;
+	},
+): Promise<{ summary: string; chunkCount: number; fileOps: FileOperations }> {
+	const model = run.models[0]?.model;
+	if (!model) {
+		throw new Error(`No usable ${run.role} model (${run.failures.join("; ")})`);
+	}
+	const rawEntries = entries.filter((entry) => entry.type !== "compaction" && !isProjectMemoryEntry(entry));
+	const { messages, fileOps } = prepareBranchEntries(rawEntries);
+	const chunks = chunkMessagesByTokens(
+		messages,
+		getObserverChunkBudget(run.models, maxTokens, 0),
+		resolveTokenCounter(model),
+	);
+	if (chunks.length === 0) {
+		throw new Error("No raw session entries to rebuild from");
+	}
+
+	const summary = await observeChunks(chunks, rawEntries, run, maxTokens, signal, {
+		customInstructions: options.customInstructions,
+		isSplitTurn: false,
+		forceReflect: false,
+		rebuild: true,
+		onChunk: options.onChunk,
+	});
+	return { summary, chunkCount: chunks.length, fileOps };
+}
 
-	const firstAttempt = await runSummarization(promptText);
-	if (firstAttempt.length > 0) {
-		return firstAttempt;
+function formatDroppedBreakdown(details: ObservationalCompactionDetails): string {
+	if (details.observationsDroppedByLlm === undefined && details.observationsDroppedByHeuristic === undefined) {
+		return String(details.observationsDropped);
 	}
+	const merged = details.observationsMergedAsNearDuplicates
+		? `, ${details.observationsMergedAsNearDuplicates} near-duplicates merged`
+		: "";
+	return `${details.observationsDropped} (llm ${details.observationsDroppedByLlm ?? 0}, heuristic ${details.observationsDroppedByHeuristic ?? 0}${merged})`;
+}
+
+function buildMemoryDump(entry: CompactionEntry, sessionId: string): ObservationalMemoryDump {
+	const summary = stripFileTags(entry.summary);
+	const openThreadsSection = extractSection(summary, "## Open Threads", "## Next Action Bias");
+	const nextActionSection = extractSection(summary, "## Next Action Bias");
+
+	return {
+		schema: DUMP_SCHEMA,
+		schemaVersion: DUMP_SCHEMA_VERSION,
+		exportedAt: new Date().toISOString(),
+		sessionId,
+		compaction: {
+			id: entry.id,
+			timestamp: entry.timestamp,
+			tokensBefore: entry.tokensBefore,
+			firstKeptEntryId: entry.firstKeptEntryId,
+			fromExtension: entry.fromHook ?? false,
+		},
+		details: isObservationalCompactionDetails(entry.details) ? entry.details : null,
+		observations: readObservationRecords(entry),
+		openThreads: parseOpenThreadLines(openThreadsSection).filter((line) => line !== "(none)"),
+		nextActions: parseNextActionLines(nextActionSection),
+		files: {
+			read: [...parseTaggedFiles(entry.summary, "read-files")].sort(),
+			modified: [...parseTaggedFiles(entry.summary, "modified-files")].sort(),
+		},
+		summary,
+	};
+}
 
-	const retryPrompt = `${promptText}\n\nIMPORTANT: Output ONLY markdown in the required three-section format. Do not return empty output.`;
-	const secondAttempt = await runSummarization(retryPrompt);
-	if (secondAttempt.length > 0) {
-		return secondAttempt;
+function renderMemoryDumpMarkdown(dump: ObservationalMemoryDump): string {
+	const lines = [
+		"# Observational Memory Dump",
+		"",
+		`- session: ${dump.sessionId}`,
+		`- compaction: ${dump.compaction.id} (${dump.compaction.timestamp})`,
+		`- tokensBefore: ${dump.compaction.tokensBefore.toLocaleString()}`,
+		`- exportedAt: ${dump.exportedAt}`,
+	];
+	if (dump.details) {
+		lines.push(
+			`- model: ${dump.details.model}${dump.details.modelRole ? ` (${dump.details.modelRole})` : ""}`,
+			`- reflection: ${dump.details.reflectionMode}, dropped ${formatDroppedBreakdown(dump.details)}`,
+			`- generatedAt: ${dump.details.generatedAt}`,
+		);
 	}
 
-	throw new Error("Summarization returned empty text");
+	lines.push(
+		"",
+		"## Observations",
+		...(dump.observations.length > 0
+			? dump.observations.map(
+					(item) =>
+						`${formatObservationLine({ ...item, sources: undefined })} (\`${item.id}\`${item.pinned ? ", pinned" : ""})`,
+				)
+			: ["- (none)"]),
+		"",
+		"## Open Threads",
+		...(dump.openThreads.length > 0 ? dump.openThreads.map((line) => `- ${line}`) : ["- (none)"]),
+		"",
+		"## Next Action Bias",
+		...(dump.nextActions.length > 0 ? dump.nextActions.map((line, index) => `${index + 1}. ${line}`) : ["(none)"]),
+		"",
+		"## Read Files",
+		...(dump.files.read.length > 0 ? dump.files.read.map((file) => `- \`${file}\``) : ["- (none)"]),
+		"",
+		"## Modified Files",
+		...(dump.files.modified.length > 0 ? dump.files.modified.map((file) => `- \`${file}\``) : ["- (none)"]),
+		"",
+		"## Details",
+		"```json",
+		JSON.stringify(dump.details, null, 2),
+		"```",
+		"",
+	);
+
+	return lines.join("\n");
+}
+
+function parseDumpFormat(token: string): DumpFormat[] | undefined {
+	const normalized = token.trim().toLowerCase();
+	if (["md", "markdown"].includes(normalized)) return ["markdown"];
+	if (normalized === "json") return ["json"];
+	if (["both", "all"].includes(normalized)) return ["markdown", "json"];
+	return undefined;
 }
 
 function isObservationalCompactionDetails(value: unknown): value is ObservationalCompactionDetails {
@@ -730,43 +3809,236 @@ function isObservationalBranchDetails(value: unknown): value is ObservationalBra
 
 export default function observationalMemoryExtension(pi: ExtensionAPI) {
 	let forceReflectNextCompaction = false;
+	let rebuildNextCompaction = false;
 	let autoObserverEnabled = true;
 	let autoCompactionMode: AutoCompactionMode = DEFAULT_OBS_MODE;
 	let observerTriggerTokens = DEFAULT_OBSERVER_TRIGGER_TOKENS;
 	let reflectorTriggerTokens = DEFAULT_REFLECTOR_TRIGGER_TOKENS;
 	let rawTailRetainTokens = DEFAULT_RAW_TAIL_RETAIN_TOKENS;
+	let dedupeSimilarityThreshold = DEFAULT_DEDUPE_SIMILARITY;
+	let projectMemoryEnabled = DEFAULT_PROJECT_MEMORY_ENABLED;
+	let projectMemoryBudget = DEFAULT_PROJECT_MEMORY_BUDGET;
+	let reflectorCaps: ReflectorCaps = { ...REFLECT_LIMITS_THRESHOLD };
+	let forcedReflectorCaps: ReflectorCaps = { ...REFLECT_LIMITS_FORCED };
+	let telemetryEnabled = DEFAULT_TELEMETRY_ENABLED;
+	let summarizerPolicy: SummarizerPolicy = {
+		timeoutMs: DEFAULT_SUMMARIZER_TIMEOUT_MS,
+		retries: DEFAULT_SUMMARIZER_RETRIES,
+		backoffMs: DEFAULT_SUMMARIZER_BACKOFF_MS,
+	};
 	let autoCompactInFlight = false;
 	let lastAutoCompactAt = 0;
 	let statusOverlayOpen = false;
+	/** Summarizer call in progress (observer, reflector or branch summary), shown by the overlay's spinner. */
+	let summarization: { stage: string; startedAt: number } | undefined;
+	/**
+	 * Failed run waiting to be stored. Appending during `session_before_compact`/`_tree` would land before
+	 * the entry pi is about to write, so it is flushed on `session_compact`/`session_tree` instead.
+	 */
+	let pendingFailure: SummarizerFailure | undefined;
+	/** Called after extension state the overlay shows changes; the open overlay re-snapshots on each call. */
+	const stateListeners = new Set<() => void>();
+	/** Footer widget listener bound to the current session's context; replaced on session start/switch. */
+	let statusWidgetListener: (() => void) | undefined;
+	let observerModelChain: string[] = [...DEFAULT_MODEL_CHAIN];
+	let reflectorModelChain: string[] = [...DEFAULT_MODEL_CHAIN];
+	const configLayers: Record<OverrideLayer, ObservationalMemoryConfig> = {
+		global: {},
+		project: {},
+		flag: {},
+		runtime: {},
+	};
+	let settingSources = resolveLayeredSettings(configLayers).sources;
+
+	const getModelChain = (role: ModelRole): string[] => (role === "observer" ? observerModelChain : reflectorModelChain);
+
+	const emitStateChange = () => {
+		for (const listener of stateListeners) listener();
+	};
+
+	const setSummarization = (stage: string | undefined) => {
+		summarization = stage ? { stage, startedAt: summarization?.startedAt ?? Date.now() } : undefined;
+		emitStateChange();
+	};
+
+	const setAutoCompactInFlight = (inFlight: boolean) => {
+		autoCompactInFlight = inFlight;
+		emitStateChange();
+	};
+
+	const withSource = (key: SettingKey, text: string): string => `${text} (${settingSources[key]})`;
+
+	const applyConfigLayers = () => {
+		const { values, sources } = resolveLayeredSettings(configLayers);
+		autoObserverEnabled = values.autoCompact;
+		autoCompactionMode = values.mode;
+		observerTriggerTokens = values.observerThreshold;
+		reflectorTriggerTokens = values.reflectorThreshold;
+		rawTailRetainTokens = values.retainRawTail;
+		dedupeSimilarityThreshold = values.dedupeSimilarity;
+		projectMemoryEnabled = values.projectMemory;
+		projectMemoryBudget = values.projectMemoryBudget;
+		reflectorCaps = values.reflectorCaps;
+		forcedReflectorCaps = values.forcedReflectorCaps;
+		telemetryEnabled = values.telemetry;
+		summarizerPolicy = {
+			timeoutMs: values.summarizerTimeout,
+			retries: values.summarizerRetries,
+			backoffMs: values.summarizerBackoff,
+		};
+		observerModelChain = values.observerModels;
+		reflectorModelChain = values.reflectorModels;
+		settingSources = sources;
+		emitStateChange();
+	};
+
+	const loadConfigLayers = (ctx: ExtensionContext) => {
+		for (const scope of ["global", "project"] as const) {
+			const { config, error } = readConfigFile(getConfigPath(scope, ctx.cwd));
+			configLayers[scope] = config;
+			if (error && ctx.hasUI) {
+				ctx.ui.notify(`Observational memory: ignoring invalid ${scope} config (${error}).`, "warning");
+			}
+		}
+
+		const flagValues: Record<string, unknown> = {};
+		for (const key of SETTING_KEYS) {
+			const value = pi.getFlag(SETTING_FLAGS[key]);
+			if (value === undefined || value === "") continue;
+			flagValues[key] = value;
+		}
+		const flagConfig = validateConfig(flagValues);
+		configLayers.flag = flagConfig.config;
+		if (ctx.hasUI) {
+			for (const { key, value } of flagConfig.invalid) {
+				ctx.ui.notify(
+					`Observational memory: invalid --${SETTING_FLAGS[key]} value "${String(value)}". Ignoring it.`,
+					"warning",
+				);
+			}
+		}
+
+		const lastSettingsEntry = [...ctx.sessionManager.getBranch()]
+			.reverse()
+			.find((entry) => entry.type === "custom" && entry.customType === SETTINGS_ENTRY_TYPE);
+		const runtimeData = lastSettingsEntry?.type === "custom" ? lastSettingsEntry.data : undefined;
+		configLayers.runtime =
+			runtimeData && typeof runtimeData === "object" && !Array.isArray(runtimeData)
+				? validateConfig(runtimeData as Record<string, unknown>).config
+				: {};
+
+		applyConfigLayers();
+	};
+
+	/**
+	 * Apply command overrides as the runtime layer (persisted in the session so reloads keep them)
+	 * and optionally write the same keys to the global or project config file.
+	 */
+	const updateSettings = (
+		ctx: ExtensionContext,
+		patch: ObservationalMemoryConfig,
+		saveScope: ConfigScope | undefined,
+	): string | undefined => {
+		configLayers.runtime = { ...configLayers.runtime, ...patch };
+		pi.appendEntry(SETTINGS_ENTRY_TYPE, configLayers.runtime);
+
+		let savedNote: string | undefined;
+		if (saveScope) {
+			const configPath = getConfigPath(saveScope, ctx.cwd);
+			try {
+				writeConfigFile(configPath, patch);
+				configLayers[saveScope] = { ...configLayers[saveScope], ...patch };
+				savedNote = `saved to ${saveScope} config: ${configPath}`;
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Unable to save observational config to ${configPath}: ${message}`, "error");
+			}
+		}
+
+		applyConfigLayers();
+		return savedNote;
+	};
 
 	pi.registerFlag("obs-auto-compact", {
-		description: "Enable observational auto observer trigger",
+		description: "Enable observational auto observer trigger (default: true)",
 		type: "boolean",
-		default: true,
 	});
 
 	pi.registerFlag("obs-mode", {
-		description: "Auto-compaction mode: buffered (background) or blocking",
+		description: `Auto-compaction mode: buffered (background) or blocking (default: ${DEFAULT_OBS_MODE})`,
 		type: "string",
-		default: DEFAULT_OBS_MODE,
 	});
 
 	pi.registerFlag("obs-observer-threshold", {
-		description: "Observer trigger threshold for raw-tail tokens (e.g. 30000 or 30k)",
+		description: "Observer trigger threshold for raw-tail tokens (e.g. 30000 or 30k; default: 30k)",
 		type: "string",
-		default: String(DEFAULT_OBSERVER_TRIGGER_TOKENS),
 	});
 
 	pi.registerFlag("obs-reflector-threshold", {
-		description: "Reflector trigger threshold for observation-block tokens (e.g. 40000 or 40k)",
+		description: "Reflector trigger threshold for observation-block tokens (e.g. 40000 or 40k; default: 40k)",
 		type: "string",
-		default: String(DEFAULT_REFLECTOR_TRIGGER_TOKENS),
 	});
 
 	pi.registerFlag("obs-retain-raw-tail", {
-		description: "Extra raw-tail tokens to retain before observer compaction triggers (e.g. 8000 or 8k)",
+		description: "Extra raw-tail tokens to retain before observer compaction triggers (e.g. 8000 or 8k; default: 8k)",
+		type: "string",
+	});
+
+	pi.registerFlag("obs-dedupe-similarity", {
+		description: `Near-duplicate merge threshold (token-set Jaccard, 0.1-1 or 10%-100%; default: ${DEFAULT_DEDUPE_SIMILARITY})`,
+		type: "string",
+	});
+
+	pi.registerFlag("obs-reflector-caps", {
+		description: `Max 🔴/🟡/🟢 observations kept by threshold reflection and rebuilds (default: ${formatReflectorCaps(REFLECT_LIMITS_THRESHOLD)})`,
+		type: "string",
+	});
+
+	pi.registerFlag("obs-forced-reflector-caps", {
+		description: `Max 🔴/🟡/🟢 observations kept by forced reflection (default: ${formatReflectorCaps(REFLECT_LIMITS_FORCED)})`,
+		type: "string",
+	});
+
+	pi.registerFlag("obs-telemetry", {
+		description:
+			"Append a record per observer/reflector/tree summary run to .pi/observational-memory/telemetry.jsonl (default: false)",
+		type: "boolean",
+	});
+
+	pi.registerFlag("obs-summarizer-timeout", {
+		description: "Per-call summarizer timeout, e.g. 90s or 3m; off waits for the provider (default: 180s)",
+		type: "string",
+	});
+
+	pi.registerFlag("obs-summarizer-retries", {
+		description: `Summarizer retries per model after timeouts, transient errors or empty output (0-${SUMMARIZER_RETRIES_MAX}, default: ${DEFAULT_SUMMARIZER_RETRIES})`,
+		type: "string",
+	});
+
+	pi.registerFlag("obs-summarizer-backoff", {
+		description: "Delay before the first summarizer retry, doubled for each further one (default: 2s)",
+		type: "string",
+	});
+
+	pi.registerFlag("obs-project-memory", {
+		description:
+			"Collect durable observations into the project memory store and inject them into new sessions (default: false)",
+		type: "boolean",
+	});
+
+	pi.registerFlag("obs-project-memory-budget", {
+		description: "Token budget of the project memory store (e.g. 4000 or 4k; default: 4k)",
+		type: "string",
+	});
+
+	pi.registerFlag("obs-observer-model", {
+		description: `Observer model fallback chain, comma-separated (e.g. anthropic/claude-haiku-4-5,${ACTIVE_MODEL_REF})`,
+		type: "string",
+	});
+
+	pi.registerFlag("obs-reflector-model", {
+		description: `Reflector model fallback chain, comma-separated (e.g. openai/gpt-5-mini,${ACTIVE_MODEL_REF})`,
 		type: "string",
-		default: String(DEFAULT_RAW_TAIL_RETAIN_TOKENS),
 	});
 
 	const triggerObserverAutoCompaction = (ctx: ExtensionContext, options?: { forced?: boolean }) => {
@@ -778,14 +4050,15 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 		if (now - lastAutoCompactAt < AUTO_COMPACT_COOLDOWN_MS) return;
 
 		const branchEntries = ctx.sessionManager.getBranch();
-		const rawTailTokens = estimateRawTailTokens(branchEntries);
+		const tokenCounter = resolveTokenCounter(ctx.model);
+		const rawTailTokens = estimateRawTailTokens(branchEntries, tokenCounter);
 		const activationThreshold = getObserverActivationThreshold(observerTriggerTokens, rawTailRetainTokens);
 		if (rawTailTokens < activationThreshold) return;
 
 		const lastCompaction = [...branchEntries].reverse().find((entry) => entry.type === "compaction");
-		const observationTokens = estimateObservationTokens(lastCompaction?.summary);
+		const observationTokens = estimateObservationTokens(lastCompaction?.summary, tokenCounter);
 
-		autoCompactInFlight = true;
+		setAutoCompactInFlight(true);
 		lastAutoCompactAt = now;
 
 		if (ctx.hasUI) {
@@ -812,7 +4085,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				"Preserve critical constraints, blockers, decisions, active tasks, and the latest relevant context from the current raw tail.",
 			].join("\n"),
 			onComplete: (result) => {
-				autoCompactInFlight = false;
+				setAutoCompactInFlight(false);
 				if (ctx.hasUI) {
 					ctx.ui.notify(
 						`Obs observer compaction complete (${result.tokensBefore.toLocaleString()} tokens before).`,
@@ -821,7 +4094,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				}
 			},
 			onError: (error) => {
-				autoCompactInFlight = false;
+				setAutoCompactInFlight(false);
 				const message = error instanceof Error ? error.message : String(error);
 				if (ctx.hasUI && !shouldIgnoreAutoCompactError(message)) {
 					ctx.ui.notify(`Obs observer compaction failed: ${message}`, "error");
@@ -830,65 +4103,395 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 		});
 	};
 
+	const buildOverlaySettings = (): ObservationMemoryOverlaySetting[] => {
+		const tokenHint = `${formatTokenCount(AUTO_TOKENS_MIN)} - ${formatTokenCount(AUTO_TOKENS_MAX)}, e.g. 30000 or 30k`;
+		const rows: Record<
+			(typeof OVERLAY_SETTING_KEYS)[number],
+			Omit<ObservationMemoryOverlaySetting, "key" | "source">
+		> = {
+			autoCompact: { label: "Observer trigger", value: autoObserverEnabled ? "on" : "off", choices: ["on", "off"] },
+			mode: { label: "Observer mode", value: autoCompactionMode, choices: ["buffered", "blocking"] },
+			observerThreshold: { label: "Observer threshold", value: String(observerTriggerTokens), hint: tokenHint },
+			reflectorThreshold: { label: "Reflector threshold", value: String(reflectorTriggerTokens), hint: tokenHint },
+			retainRawTail: {
+				label: "Raw-tail retain",
+				value: String(rawTailRetainTokens),
+				hint: `0 - ${formatTokenCount(AUTO_TOKENS_MAX)}, e.g. 8k; 0 disables the retain buffer`,
+			},
+			reflectorCaps: {
+				label: "Reflector caps 🔴/🟡/🟢",
+				value: formatReflectorCaps(reflectorCaps),
+				hint: `threshold reflection and rebuilds; 1-${REFLECTOR_CAP_MAX} each, e.g. 96/40/16`,
+			},
+			forcedReflectorCaps: {
+				label: "Forced reflector caps 🔴/🟡/🟢",
+				value: formatReflectorCaps(forcedReflectorCaps),
+				hint: `/obs-reflect; 1-${REFLECTOR_CAP_MAX} each, e.g. 72/28/8`,
+			},
+			summarizerTimeout: {
+				label: "Summarizer timeout",
+				value: formatSettingDuration(summarizerPolicy.timeoutMs),
+				hint: "per call, e.g. 90s or 3m; off waits for the provider",
+			},
+			summarizerRetries: {
+				label: "Summarizer retries",
+				value: String(summarizerPolicy.retries),
+				choices: Array.from({ length: SUMMARIZER_RETRIES_MAX + 1 }, (_, retries) => String(retries)),
+			},
+			summarizerBackoff: {
+				label: "Summarizer backoff",
+				value: formatSettingDuration(summarizerPolicy.backoffMs),
+				hint: "before the first retry, doubled for each further one, e.g. 2s",
+			},
+		};
+		return OVERLAY_SETTING_KEYS.map((key) => ({ key, source: settingSources[key], ...rows[key] }));
+	};
+
+	/** Settings tab callbacks: values go through `validateConfig()`, so they share the commands' parsers and bounds. */
+	const createOverlaySettingsHandler = (ctx: ExtensionContext): ObservationMemoryOverlaySettingsHandler => ({
+		apply: (key, value) => {
+			const settingKey = OVERLAY_SETTING_KEYS.find((item) => item === key);
+			if (!settingKey) return `Unknown setting "${key}".`;
+			const { config } = validateConfig({ [settingKey]: value });
+			if (config[settingKey] === undefined) return `Invalid value "${value}".`;
+			updateSettings(ctx, config, undefined);
+			if (!autoObserverEnabled || autoCompactionMode === "blocking") setAutoCompactInFlight(false);
+			return undefined;
+		},
+		// Only values changed in this session (the runtime layer) are saved; defaults, flags and the other
+		// config file stay where they came from.
+		save: (scope) => {
+			const patch: ObservationalMemoryConfig = Object.fromEntries(
+				OVERLAY_SETTING_KEYS.flatMap((key) =>
+					configLayers.runtime[key] === undefined ? [] : [[key, configLayers.runtime[key]]],
+				),
+			);
+			if (Object.keys(patch).length === 0) {
+				return { text: "Nothing to save: no setting was changed in this session.", level: "warning" };
+			}
+			const savedNote = updateSettings(ctx, patch, scope);
+			return savedNote
+				? { text: `${Object.keys(patch).join(", ")} ${savedNote}`, level: "info" }
+				: { text: `Unable to save to ${scope} config.`, level: "error" };
+		},
+	});
+
 	const buildStatusSnapshot = (ctx: ExtensionContext): ObservationMemoryOverlaySnapshot => {
 		const branchEntries = ctx.sessionManager.getBranch();
 		const lastCompaction = [...branchEntries].reverse().find((entry) => entry.type === "compaction");
-		const lastBranchSummary = [...branchEntries].reverse().find((entry) => entry.type === "branch_summary");
-		const rawTailTokens = estimateRawTailTokens(branchEntries);
-		const observationTokens = estimateObservationTokens(lastCompaction?.summary);
-
-		const compactionDetails =
-			lastCompaction && isObservationalCompactionDetails(lastCompaction.details)
-				? {
-					strategy: lastCompaction.details.strategy,
-					model: lastCompaction.details.model,
-					observationCount: lastCompaction.details.observationCount,
-					reflectorRan: lastCompaction.details.reflectorRan,
-					reflectionMode: lastCompaction.details.reflectionMode,
-					observationsDropped: lastCompaction.details.observationsDropped,
-					isSplitTurn: lastCompaction.details.isSplitTurn,
-					usedPreviousSummary: lastCompaction.details.usedPreviousSummary,
-					generatedAt: lastCompaction.details.generatedAt,
-				}
-				: undefined;
-
-		const branchSummaryDetails =
-			lastBranchSummary && isObservationalBranchDetails(lastBranchSummary.details)
-				? {
-					strategy: lastBranchSummary.details.strategy,
-					model: lastBranchSummary.details.model,
-					observationCount: lastBranchSummary.details.observationCount,
-					entryCount: lastBranchSummary.details.entryCount,
-					generatedAt: lastBranchSummary.details.generatedAt,
-				}
-				: undefined;
+		const lastBranchSummary = [...branchEntries].reverse().find((entry) => entry.type === "branch_summary");
+		const tokenCounter = resolveTokenCounter(ctx.model);
+		const rawTailTokens = estimateRawTailTokens(branchEntries, tokenCounter);
+		const observationTokens = estimateObservationTokens(lastCompaction?.summary, tokenCounter);
+		const pins = readPinnedObservations(branchEntries);
+		const compactions = branchEntries.filter((entry): entry is CompactionEntry => entry.type === "compaction");
+
+		const compactionDetails =
+			lastCompaction && isObservationalCompactionDetails(lastCompaction.details)
+				? {
+						strategy: lastCompaction.details.strategy,
+						model: lastCompaction.details.model,
+						modelRole: lastCompaction.details.modelRole,
+						observationCount: lastCompaction.details.observationCount,
+						reflectorRan: lastCompaction.details.reflectorRan,
+						reflectionMode: lastCompaction.details.reflectionMode,
+						observationsDropped: lastCompaction.details.observationsDropped,
+						observationsDroppedByLlm: lastCompaction.details.observationsDroppedByLlm,
+						observationsDroppedByHeuristic: lastCompaction.details.observationsDroppedByHeuristic,
+						observationsMergedAsNearDuplicates: lastCompaction.details.observationsMergedAsNearDuplicates,
+						reflectorModel: lastCompaction.details.reflectorModel,
+						llmReflectorError: lastCompaction.details.llmReflectorError,
+						memoryEditsApplied: lastCompaction.details.memoryEditsApplied,
+						pinnedCount: lastCompaction.details.pinnedCount,
+						pinsReinjected: lastCompaction.details.pinsReinjected,
+						isSplitTurn: lastCompaction.details.isSplitTurn,
+						usedPreviousSummary: lastCompaction.details.usedPreviousSummary,
+						generatedAt: lastCompaction.details.generatedAt,
+						usage: readSummarizerUsage(lastCompaction.details),
+						...readFormatReport(lastCompaction.details),
+					}
+				: undefined;
+
+		const branchSummaryDetails =
+			lastBranchSummary && isObservationalBranchDetails(lastBranchSummary.details)
+				? {
+						strategy: lastBranchSummary.details.strategy,
+						model: lastBranchSummary.details.model,
+						observationCount: lastBranchSummary.details.observationCount,
+						entryCount: lastBranchSummary.details.entryCount,
+						generatedAt: lastBranchSummary.details.generatedAt,
+						usage: readSummarizerUsage(lastBranchSummary.details),
+						...readFormatReport(lastBranchSummary.details),
+					}
+				: undefined;
+
+		return {
+			autoObserverEnabled,
+			mode: autoCompactionMode,
+			settingSources: { ...settingSources },
+			observerModels: [...observerModelChain],
+			reflectorModels: [...reflectorModelChain],
+			observerTriggerTokens,
+			rawTailTokens,
+			reflectorTriggerTokens,
+			observationTokens,
+			tokenCounter: tokenCounter.name,
+			tokenMargin: tokenCounter.margin,
+			autoCompactInFlight,
+			...(summarization ? { summarizing: { ...summarization } } : {}),
+			settings: buildOverlaySettings(),
+			forceReflectPending: forceReflectNextCompaction,
+			rebuildPending: rebuildNextCompaction,
+			pendingEdits: readMemoryEdits(branchEntries, { pendingOnly: true }).length,
+			projectMemory: {
+				enabled: projectMemoryEnabled,
+				budget: projectMemoryBudget,
+				observations: readProjectMemory(getProjectMemoryPath(ctx.cwd)).store.observations.length,
+			},
+			branchUsage: sumBranchUsage(branchEntries),
+			lastFailure: readLastSummarizerFailure(branchEntries),
+			lastCompaction: lastCompaction
+				? {
+						id: lastCompaction.id,
+						timestamp: lastCompaction.timestamp,
+						tokensBefore: lastCompaction.tokensBefore,
+						fromExtension: lastCompaction.fromHook ?? false,
+						details: compactionDetails,
+					}
+				: undefined,
+			lastBranchSummary: lastBranchSummary
+				? {
+						id: lastBranchSummary.id,
+						timestamp: lastBranchSummary.timestamp,
+						details: branchSummaryDetails,
+					}
+				: undefined,
+			history: branchEntries.flatMap((entry): ObservationMemoryOverlaySnapshot["history"] => {
+				if (entry.type === "compaction") {
+					const details = isObservationalCompactionDetails(entry.details) ? entry.details : undefined;
+					return [
+						{
+							id: entry.id,
+							type: entry.type,
+							timestamp: entry.timestamp,
+							tokensBefore: entry.tokensBefore,
+							observationCount: details?.observationCount ?? readObservationRecords(entry).length,
+							reflectionMode: details?.reflectionMode,
+							model: details?.model,
+							summary: stripFileTags(entry.summary),
+						},
+					];
+				}
+				if (entry.type === "branch_summary") {
+					const details = isObservationalBranchDetails(entry.details) ? entry.details : undefined;
+					return [
+						{
+							id: entry.id,
+							type: entry.type,
+							timestamp: entry.timestamp,
+							observationCount: details?.observationCount ?? countParsedObservations(entry.summary),
+							model: details?.model,
+							summary: stripFileTags(entry.summary),
+						},
+					];
+				}
+				return [];
+			}),
+			diffs: compactions.slice(1).map((entry, index) => {
+				const diff = diffCompactions(compactions[index], entry);
+				return {
+					from: diff.from,
+					to: diff.to,
+					counts: formatCompactionDiffCounts(diff),
+					lines: diff.lines.map((line) => ({
+						section: line.section,
+						change: line.change,
+						text: formatCompactionDiffLine(line),
+					})),
+				};
+			}),
+			observations: lastCompaction?.summary ? stripFileTags(lastCompaction.summary) : undefined,
+			pinned: pins.length > 0 ? renderPinnedSection(pins).join("\n") : undefined,
+		};
+	};
+
+	/** Resolve an id or body substring to one observation, asking the user to pick when several match. */
+	const pickObservation = async <T extends { id: string; priority: ObservationPriority; body: string }>(
+		ctx: ExtensionContext,
+		candidates: T[],
+		query: string,
+		title: string,
+	): Promise<T | undefined> => {
+		const needle = query.trim().toLowerCase();
+		const matches = needle
+			? candidates.filter((item) => item.id === needle || item.body.toLowerCase().includes(needle))
+			: candidates;
+		if (matches.length === 0) {
+			ctx.ui.notify(`No observation matches "${query.trim()}".`, "warning");
+			return undefined;
+		}
+		if (matches.length === 1) return matches[0];
+
+		const labels = matches.map((item) => `${item.id}  ${priorityEmoji(item.priority)} ${item.body}`);
+		if (!ctx.hasUI) {
+			ctx.ui.notify([`${matches.length} observations match; pass an id:`, ...labels].join("\n"), "warning");
+			return undefined;
+		}
+		const picked = await ctx.ui.select(title, labels);
+		return picked ? matches[labels.indexOf(picked)] : undefined;
+	};
+
+	const traceObservation = async (ctx: ExtensionContext, query: string): Promise<void> => {
+		const branchEntries = ctx.sessionManager.getBranch();
+		const lastCompaction = [...branchEntries]
+			.reverse()
+			.find((entry): entry is CompactionEntry => entry.type === "compaction");
+		if (!lastCompaction) {
+			ctx.ui.notify("No compaction found in current branch.", "warning");
+			return;
+		}
+
+		const record = await pickObservation(
+			ctx,
+			readObservationRecords(lastCompaction),
+			query,
+			"Trace which observation?",
+		);
+		if (!record) return;
+
+		const branchIds = new Set(branchEntries.map((entry) => entry.id));
+		const sources = record.sources ?? [];
+		const lines = [
+			`Observation ${record.id}`,
+			`Date: ${record.date ?? "unknown"}`,
+			formatObservationLine({ ...record, sources: undefined }),
+			`created: ${record.createdAt}${record.createdIn ? ` (compaction ${record.createdIn})` : ""}`,
+			"",
+		];
+		if (sources.length === 0) {
+			lines.push("No source entries recorded (observation predates provenance tags or the observer omitted them).");
+		} else {
+			lines.push("Source entries:");
+			for (const id of sources) {
+				const entry = ctx.sessionManager.getEntry(id);
+				if (!entry) {
+					lines.push(`- ${id}: not found in this session`);
+					continue;
+				}
+				lines.push(`- ${id}${branchIds.has(id) ? "" : " (other branch)"} ${describeSessionEntry(entry)}`);
+			}
+		}
+		ctx.ui.notify(lines.join("\n"), "info");
+
+		const reachable = sources.filter((id) => ctx.sessionManager.getEntry(id));
+		if (!ctx.hasUI || !isCommandContext(ctx) || reachable.length === 0) return;
+
+		const stay = "Stay here";
+		const choice = await ctx.ui.select("Jump to a source entry? (moves the session leaf; /tree to return)", [
+			stay,
+			...reachable.map((id) => `Jump to ${id}`),
+		]);
+		if (!choice || choice === stay) return;
+		await ctx.navigateTree(choice.slice("Jump to ".length), { summarize: false });
+	};
+
+	const pinObservation = async (ctx: ExtensionContext, query: string): Promise<void> => {
+		const branchEntries = ctx.sessionManager.getBranch();
+		const lastCompaction = [...branchEntries]
+			.reverse()
+			.find((entry): entry is CompactionEntry => entry.type === "compaction");
+		if (!lastCompaction) {
+			ctx.ui.notify("No compaction found in current branch. Pin observations after the first compaction.", "warning");
+			return;
+		}
+
+		const pins = readPinnedObservations(branchEntries);
+		const alreadyPinned = pins.find((pin) => pin.id === query.trim());
+		if (alreadyPinned) {
+			ctx.ui.notify(`${alreadyPinned.id} is already pinned.`, "info");
+			return;
+		}
+
+		const pinnedIds = new Set(pins.map((pin) => pin.id));
+		const record = await pickObservation(
+			ctx,
+			readObservationRecords(lastCompaction).filter((item) => !pinnedIds.has(item.id)),
+			query,
+			"Pin which observation?",
+		);
+		if (!record) return;
+
+		const pin: PinnedObservation = {
+			id: record.id,
+			priority: record.priority,
+			body: record.body,
+			...(record.date ? { date: record.date } : {}),
+			...(record.time ? { time: record.time } : {}),
+			...(record.sources ? { sources: record.sources } : {}),
+			pinnedAt: new Date().toISOString(),
+		};
+		pi.appendEntry(PINS_ENTRY_TYPE, { pins: [...pins, pin] });
+		ctx.ui.notify(
+			[
+				`Pinned ${pin.id}:`,
+				formatObservationLine({ ...pin, sources: undefined }),
+				"It is kept in every later compaction, outside priority caps and dedupe.",
+				`Release it with /${OBS_UNPIN_COMMAND} ${pin.id}.`,
+			].join("\n"),
+			"info",
+		);
+	};
+
+	const unpinObservation = async (ctx: ExtensionContext, query: string): Promise<void> => {
+		const pins = readPinnedObservations(ctx.sessionManager.getBranch());
+		if (pins.length === 0) {
+			ctx.ui.notify("No pinned observations on this branch.", "info");
+			return;
+		}
+
+		const pin = await pickObservation(ctx, pins, query, "Unpin which observation?");
+		if (!pin) return;
+
+		pi.appendEntry(PINS_ENTRY_TYPE, { pins: pins.filter((item) => item.id !== pin.id) });
+		ctx.ui.notify(
+			`Unpinned ${pin.id}. From the next compaction on, the reflector may merge or drop it like any other observation.`,
+			"info",
+		);
+	};
+
+	const queueMemoryEdit = (ctx: ExtensionContext, edit: MemoryEdit, description: string[]) => {
+		pi.appendEntry(EDITS_ENTRY_TYPE, edit);
+		ctx.ui.notify(
+			[...description, "Applied at the next compaction; /obs-memory-status lists pending edits."].join("\n"),
+			"info",
+		);
+	};
+
+	const updateStatusWidget = (ctx: ExtensionContext) => {
+		if (!ctx.hasUI) return;
+		const branchEntries = ctx.sessionManager.getBranch();
+		const lastCompaction = [...branchEntries].reverse().find((entry) => entry.type === "compaction");
+		const tokenCounter = resolveTokenCounter(ctx.model);
+		ctx.ui.setStatus(
+			STATUS_WIDGET_KEY,
+			formatStatusWidget({
+				rawTailTokens: estimateRawTailTokens(branchEntries, tokenCounter),
+				activationThreshold: getObserverActivationThreshold(observerTriggerTokens, rawTailRetainTokens),
+				observationTokens: estimateObservationTokens(lastCompaction?.summary, tokenCounter),
+				reflectorTriggerTokens,
+				mode: autoCompactionMode,
+				autoObserverEnabled,
+				autoCompactInFlight,
+				summarizingStage: summarization?.stage,
+			}),
+		);
+	};
 
-		return {
-			autoObserverEnabled,
-			observerTriggerTokens,
-			rawTailTokens,
-			reflectorTriggerTokens,
-			observationTokens,
-			autoCompactInFlight,
-			forceReflectPending: forceReflectNextCompaction,
-			lastCompaction: lastCompaction
-				? {
-					id: lastCompaction.id,
-					timestamp: lastCompaction.timestamp,
-					tokensBefore: lastCompaction.tokensBefore,
-					fromExtension: lastCompaction.fromHook,
-					details: compactionDetails,
-				}
-				: undefined,
-			lastBranchSummary: lastBranchSummary
-				? {
-					id: lastBranchSummary.id,
-					timestamp: lastBranchSummary.timestamp,
-					details: branchSummaryDetails,
-				}
-				: undefined,
-			observations: lastCompaction?.summary ? stripFileTags(lastCompaction.summary) : undefined,
-		};
+	const attachStatusWidget = (ctx: ExtensionContext) => {
+		if (statusWidgetListener) stateListeners.delete(statusWidgetListener);
+		statusWidgetListener = () => updateStatusWidget(ctx);
+		stateListeners.add(statusWidgetListener);
+		updateStatusWidget(ctx);
 	};
 
 	const showStatusOverlay = async (ctx: ExtensionContext): Promise<void> => {
@@ -897,79 +4500,72 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 
 		const snapshot = buildStatusSnapshot(ctx);
 		statusOverlayOpen = true;
+		let action: ObservationMemoryOverlayAction | null = null;
+		let unsubscribe: (() => void) | undefined;
 		try {
-			await ctx.ui.custom<null>(
-				(_tui, _theme, _keys, done) => new ObservationMemoryOverlay(snapshot, done),
-				{ overlay: true },
+			action = await ctx.ui.custom<ObservationMemoryOverlayAction | null>(
+				(tui, _theme, _keys, done) => {
+					const overlay = new ObservationMemoryOverlay(snapshot, done, createOverlaySettingsHandler(ctx));
+					const refresh = () => {
+						overlay.setSnapshot(buildStatusSnapshot(ctx));
+						tui.requestRender();
+					};
+					// The spinner and elapsed time only change on render, so keep rendering while a summarizer runs.
+					const timer = setInterval(() => {
+						if (summarization) tui.requestRender();
+					}, OVERLAY_SPINNER_INTERVAL_MS);
+					stateListeners.add(refresh);
+					unsubscribe = () => {
+						stateListeners.delete(refresh);
+						clearInterval(timer);
+					};
+					return overlay;
+				},
+				{
+					overlay: true,
+				},
 			);
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error);
 			ctx.ui.notify(`Unable to render obs overlay: ${message}`, "error");
 		} finally {
+			unsubscribe?.();
 			statusOverlayOpen = false;
 		}
+
+		if (action === "trace") {
+			await traceObservation(ctx, "");
+		} else if (action === "pin") {
+			await pinObservation(ctx, "");
+		}
 	};
 
 	pi.on("session_start", async (_event, ctx) => {
-		const enabledFlag = pi.getFlag("obs-auto-compact");
-		if (typeof enabledFlag === "boolean") {
-			autoObserverEnabled = enabledFlag;
-		}
+		loadConfigLayers(ctx);
+		await loadOptionalTokenizers();
+		attachStatusWidget(ctx);
+	});
 
-		const modeFlag = pi.getFlag("obs-mode");
-		if (typeof modeFlag === "string") {
-			const parsedMode = parseAutoCompactionMode(modeFlag);
-			if (parsedMode) {
-				autoCompactionMode = parsedMode;
-			} else if (ctx.hasUI) {
-				ctx.ui.notify(
-					`Observational memory: invalid --obs-mode value "${modeFlag}". Keeping ${autoCompactionMode}.`,
-					"warning",
-				);
-			}
-		}
+	pi.on("session_switch", async (_event, ctx) => {
+		loadConfigLayers(ctx);
+		attachStatusWidget(ctx);
+	});
 
-		const observerFlag = pi.getFlag("obs-observer-threshold");
-		if (typeof observerFlag === "string") {
-			const parsed = parseTokenCount(observerFlag);
-			if (parsed !== undefined) {
-				observerTriggerTokens = parsed;
-			} else if (ctx.hasUI) {
-				ctx.ui.notify(
-					`Observational memory: invalid --obs-observer-threshold value "${observerFlag}". Keeping ${formatTokenCount(observerTriggerTokens)}.`,
-					"warning",
-				);
-			}
-		}
+	pi.on("session_fork", async (_event, ctx) => {
+		attachStatusWidget(ctx);
+	});
 
-		const reflectorFlag = pi.getFlag("obs-reflector-threshold");
-		if (typeof reflectorFlag === "string") {
-			const parsed = parseTokenCount(reflectorFlag);
-			if (parsed !== undefined) {
-				reflectorTriggerTokens = parsed;
-			} else if (ctx.hasUI) {
-				ctx.ui.notify(
-					`Observational memory: invalid --obs-reflector-threshold value "${reflectorFlag}". Keeping ${formatTokenCount(reflectorTriggerTokens)}.`,
-					"warning",
-				);
-			}
-		}
+	pi.on("session_tree", async () => {
+		flushSummarizerFailure();
+		emitStateChange();
+	});
 
-		const retainFlag = pi.getFlag("obs-retain-raw-tail");
-		if (typeof retainFlag === "string") {
-			const parsed = parseRetainRawTailTokenCount(retainFlag);
-			if (parsed !== undefined) {
-				rawTailRetainTokens = parsed;
-			} else if (ctx.hasUI) {
-				ctx.ui.notify(
-					`Observational memory: invalid --obs-retain-raw-tail value "${retainFlag}". Keeping ${formatTokenCount(rawTailRetainTokens)}.`,
-					"warning",
-				);
-			}
-		}
+	pi.on("turn_end", async () => {
+		emitStateChange();
 	});
 
 	pi.on("agent_end", async (_event, ctx) => {
+		emitStateChange();
 		if (autoCompactionMode !== "buffered") return;
 		setTimeout(() => {
 			if (!ctx.isIdle()) return;
@@ -977,50 +4573,402 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 		}, 0);
 	});
 
+	const recordTelemetry = (
+		ctx: ExtensionContext,
+		record: Omit<
+			TelemetryRecord,
+			"schema" | "schemaVersion" | "at" | "sessionId" | "calls" | "inputTokens" | "outputTokens" | "cost" | "attempts"
+		>,
+		ledger: SummarizerLedger,
+	) => {
+		const { usage, attempts } = ledger;
+		if (!telemetryEnabled) return;
+		const path = getTelemetryPath(ctx.cwd);
+		try {
+			appendTelemetryRecord(path, {
+				schema: TELEMETRY_SCHEMA,
+				schemaVersion: TELEMETRY_SCHEMA_VERSION,
+				at: new Date().toISOString(),
+				sessionId: ctx.sessionManager.getSessionId(),
+				...record,
+				calls: usage.calls,
+				inputTokens: usage.input + usage.cacheRead + usage.cacheWrite,
+				outputTokens: usage.output,
+				cost: usage.cost,
+				...(attempts.some((attempt) => attempt.outcome !== "ok") ? { attempts } : {}),
+			});
+		} catch (error) {
+			// Telemetry is best-effort and must never fail a compaction.
+			if (ctx.hasUI) {
+				const message = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Observational memory: unable to write telemetry to ${path}: ${message}`, "warning");
+			}
+		}
+	};
+
+	/** Keep a fully failed run's attempts until `session_compact`/`session_tree` can append them. */
+	const noteSummarizerFailure = (kind: TelemetryKind, error: string, ledgers: SummarizerLedger[]) => {
+		const attempts = ledgers.flatMap((ledger) => ledger.attempts);
+		if (attempts.length === 0) return;
+		pendingFailure = { kind, at: new Date().toISOString(), error, attempts };
+	};
+
+	const flushSummarizerFailure = () => {
+		if (!pendingFailure) return;
+		pi.appendEntry(FAILURE_ENTRY_TYPE, pendingFailure);
+		pendingFailure = undefined;
+	};
+
+	/** Which of the extension's paths started the compaction being prepared. */
+	const currentCompactionTrigger = (): TelemetryTrigger =>
+		rebuildNextCompaction
+			? "rebuild"
+			: forceReflectNextCompaction
+				? "reflect"
+				: autoCompactInFlight
+					? "observer-trigger"
+					: "pi";
+
+	/**
+	 * A summarizer run under the current policy; failed attempts (and the success that follows them) and
+	 * format repairs are notified.
+	 */
+	const createRun = (
+		ctx: ExtensionContext,
+		role: SummarizerRole,
+		resolution: RoleModelResolution,
+		ledger: SummarizerLedger,
+	): SummarizerRun =>
+		createSummarizerRun(role, resolution, summarizerPolicy, ledger, {
+			onAttempt: (attempt) => {
+				const previous = ledger.attempts[ledger.attempts.length - 2];
+				if (!ctx.hasUI) return;
+				if (attempt.outcome !== "ok") {
+					ctx.ui.notify(`Observational memory: ${formatSummarizerAttempt(attempt)}`, "warning");
+				} else if (previous && previous.outcome !== "ok") {
+					ctx.ui.notify(`Observational memory: ${formatSummarizerAttempt(attempt)}`, "info");
+				}
+			},
+			onRepair: (repair, warnings) => {
+				if (!ctx.hasUI) return;
+				ctx.ui.notify(
+					`Observational memory: ${role} output broke the format (${warnings.length} issues: ${warnings[0]}); ${repair} repair applied.`,
+					"warning",
+				);
+			},
+		});
+
+	const runReflectorStage = async (
+		ctx: ExtensionContext,
+		summary: string,
+		mode: ReflectionMode,
+		maxTokens: number,
+		signal: AbortSignal,
+		pinned: PinnedObservation[],
+		ledger: SummarizerLedger,
+		customInstructions?: string,
+	): Promise<ReflectorStageResult> => {
+		const options = {
+			similarityThreshold: dedupeSimilarityThreshold,
+			pinned,
+			customInstructions,
+			caps: reflectorCaps,
+			forcedCaps: forcedReflectorCaps,
+		};
+		if (mode === "none") {
+			const unused = createRun(ctx, "reflector", { candidates: [], failures: [] }, ledger);
+			return reflectObservations(summary, mode, unused, maxTokens, signal, options);
+		}
+
+		setSummarization("reflector");
+		const startedAt = Date.now();
+		const trigger = currentCompactionTrigger();
+		const reflector = await resolveRoleModel(ctx, reflectorModelChain);
+		if (reflector.resolved && reflector.resolved.chainIndex > 0 && ctx.hasUI) {
+			ctx.ui.notify(
+				`Observational memory: using reflector fallback ${buildModelRef(reflector.resolved.model)} (${reflector.failures.join("; ")})`,
+				"info",
+			);
+		}
+
+		const run = createRun(ctx, "reflector", reflector, ledger);
+		let result: ReflectorStageResult;
+		try {
+			result = await reflectObservations(summary, mode, run, maxTokens, signal, options);
+		} catch (error) {
+			recordTelemetry(
+				ctx,
+				{
+					kind: "reflector",
+					trigger,
+					outcome: "aborted",
+					model: reflector.resolved ? buildModelRef(reflector.resolved.model) : undefined,
+					latencyMs: Date.now() - startedAt,
+					observationsBefore: countParsedObservations(summary),
+					reflectionMode: mode,
+					error: error instanceof Error ? error.message : String(error),
+				},
+				ledger,
+			);
+			throw error;
+		}
+		recordTelemetry(
+			ctx,
+			{
+				kind: "reflector",
+				trigger,
+				outcome: result.llmError ? "fallback" : "success",
+				model: result.reflectorModel ?? (reflector.resolved ? buildModelRef(reflector.resolved.model) : undefined),
+				latencyMs: Date.now() - startedAt,
+				observationsBefore: result.before,
+				observationsAfter: result.after,
+				reflectionMode: mode,
+				...(result.llmError ? { error: result.llmError } : {}),
+			},
+			ledger,
+		);
+		if (result.llmError && ctx.hasUI) {
+			ctx.ui.notify(
+				`Observational memory: LLM reflector skipped (${result.llmError}); applied heuristic reflection only.`,
+				"warning",
+			);
+		}
+		return result;
+	};
+
 	pi.on("session_before_compact", async (event, ctx) => {
 		const { preparation, customInstructions, signal } = event;
 		const { messagesToSummarize, turnPrefixMessages, previousSummary, settings } = preparation;
 
-		if (!ctx.model) {
-			if (ctx.hasUI) {
-				ctx.ui.notify("Observational memory: no active model, falling back to default compaction", "warning");
+		const rebuild = rebuildNextCompaction;
+		const trigger = currentCompactionTrigger();
+		const startedAt = Date.now();
+		const observerLedger = createSummarizerLedger();
+		const reflectorLedger = createSummarizerLedger();
+		const recordObserver = (
+			outcome: TelemetryOutcome,
+			fields: Partial<
+				Pick<
+					TelemetryRecord,
+					"model" | "summaryTokens" | "observationsBefore" | "observationsAfter" | "chunks" | "error"
+				>
+			> = {},
+		) =>
+			recordTelemetry(
+				ctx,
+				{
+					kind: "observer",
+					trigger,
+					outcome,
+					latencyMs: Date.now() - startedAt,
+					tokensBefore: preparation.tokensBefore,
+					...fields,
+				},
+				observerLedger,
+			);
+		const observer = await resolveRoleModel(ctx, observerModelChain);
+		const { resolved, failures } = observer;
+		if (!resolved) {
+			const error = `no usable observer model (${failures.join("; ")})`;
+			recordObserver(rebuild ? "cancelled" : "fallback", { error });
+			if (rebuild) {
+				rebuildNextCompaction = false;
+				if (ctx.hasUI) {
+					ctx.ui.notify(
+						`Observational memory rebuild cancelled: no usable observer model (${failures.join("; ")}).`,
+						"error",
+					);
+				}
+				return { cancel: true };
 			}
-			return;
-		}
-
-		const apiKey = await ctx.modelRegistry.getApiKey(ctx.model);
-		if (!apiKey) {
 			if (ctx.hasUI) {
 				ctx.ui.notify(
-					`Observational memory: missing API key for ${buildModelRef(ctx.model)}, falling back to default compaction`,
+					`Observational memory: no usable observer model (${failures.join("; ")}), falling back to default compaction`,
 					"warning",
 				);
 			}
 			return;
 		}
+		if (resolved.chainIndex > 0 && ctx.hasUI) {
+			ctx.ui.notify(
+				`Observational memory: using observer fallback ${buildModelRef(resolved.model)} (${failures.join("; ")})`,
+				"info",
+			);
+		}
 
-		const allMessages = [...messagesToSummarize, ...turnPrefixMessages];
-		if (allMessages.length === 0 && !previousSummary) {
+		const allMessages = [...messagesToSummarize, ...turnPrefixMessages].filter(
+			(message) => !isProjectMemoryMessage(message),
+		);
+		if (!rebuild && allMessages.length === 0 && !previousSummary) {
+			recordObserver("fallback", { model: buildModelRef(resolved.model), error: "nothing to observe" });
 			return;
 		}
 
-		const conversationText = serializeConversation(convertToLlm(allMessages));
-		const previousSummaryForPrompt = previousSummary ? stripFileTags(previousSummary) : undefined;
-		const previousObservationTokens = estimateObservationTokens(previousSummaryForPrompt);
-		const promptText = buildCompactionPrompt(conversationText, {
-			previousSummary: previousSummaryForPrompt,
-			customInstructions,
-			isSplitTurn: preparation.isSplitTurn,
-			forceReflect: forceReflectNextCompaction,
+		const maxTokens = Math.max(512, Math.floor(settings.reserveTokens * 0.8));
+		const previousCompaction = [...event.branchEntries]
+			.reverse()
+			.find((entry): entry is CompactionEntry => entry.type === "compaction");
+		const previousRecords = previousCompaction ? readObservationRecords(previousCompaction) : [];
+		const pins = readPinnedObservations(event.branchEntries);
+		const memoryEdits = readMemoryEdits(event.branchEntries, { pendingOnly: !rebuild });
+
+		const observerRun = createRun(ctx, "observer", observer, observerLedger);
+		/** The model that produced the observations, which may be a fallback picked after failed attempts. */
+		const observerModelRef = () => buildModelRef((observerRun.current ?? resolved).model);
+		const compactionLedgerDetails = () => ({
+			usage: sumSummarizerUsage([observerLedger.usage, reflectorLedger.usage]),
+			attempts: [...observerLedger.attempts, ...reflectorLedger.attempts],
+			...formatReportDetails([observerLedger.format, reflectorLedger.format]),
 		});
 
-		const maxTokens = Math.max(512, Math.floor(settings.reserveTokens * 0.8));
+		setSummarization(rebuild ? "rebuild" : "observer");
+		if (rebuild) {
+			try {
+				const rebuilt = await rebuildObservations(
+					entriesBeforeKept(event.branchEntries, preparation.firstKeptEntryId),
+					observerRun,
+					maxTokens,
+					signal,
+					{
+						customInstructions,
+						onChunk: (chunkIndex, chunkCount) => {
+							setSummarization(`rebuild chunk ${chunkIndex + 1}/${chunkCount}`);
+							if (ctx.hasUI) {
+								ctx.ui.notify(`Obs rebuild: observing chunk ${chunkIndex + 1}/${chunkCount}...`, "info");
+							}
+						},
+					},
+				);
+
+				const reflected = await runReflectorStage(
+					ctx,
+					rebuilt.summary,
+					"rebuild",
+					maxTokens,
+					signal,
+					pins,
+					reflectorLedger,
+					customInstructions,
+				);
+				const generatedAt = new Date().toISOString();
+				const pinned = applyPinnedObservations(
+					buildObservationRecords(reflected.summary, previousRecords, generatedAt),
+					pins,
+					dedupeSimilarityThreshold,
+				);
+				const reinjected = pinned.reinjected;
+				const observations = applyMemoryEdits(pinned.records, memoryEdits);
+				const summary =
+					renderObservationSummary(observations, reflected.summary) + formatFileOperations(rebuilt.fileOps);
+				const details: ObservationalCompactionDetails = {
+					schemaVersion: DETAILS_SCHEMA_VERSION,
+					strategy: "observational-memory",
+					model: observerModelRef(),
+					modelRole: "observer",
+					observationCount: observations.length,
+					observationCountBefore: reflected.before,
+					observationCountAfter: reflected.after,
+					observationsDropped: reflected.dropped,
+					reflectorRan: true,
+					reflectionMode: "rebuild",
+					generatedAt,
+					isSplitTurn: preparation.isSplitTurn,
+					usedPreviousSummary: false,
+					rebuildChunkCount: rebuilt.chunkCount,
+					reflectorModel: reflected.reflectorModel,
+					observationsDroppedByLlm: reflected.droppedByLlm,
+					observationsDroppedByHeuristic: reflected.droppedByHeuristic,
+					observationsMergedAsNearDuplicates: reflected.merged,
+					llmReflectorError: reflected.llmError,
+					...(memoryEdits.length > 0 ? { memoryEditsApplied: memoryEdits.length } : {}),
+					...(pins.length > 0 ? { pinnedCount: pins.length, pinsReinjected: reinjected } : {}),
+					...compactionLedgerDetails(),
+					observations,
+				};
+
+				recordObserver("success", {
+					model: details.model,
+					summaryTokens: estimateTextTokens(summary, resolveTokenCounter(ctx.model)),
+					observationsBefore: previousRecords.length,
+					observationsAfter: observations.length,
+					chunks: rebuilt.chunkCount,
+				});
+				rebuildNextCompaction = false;
+				forceReflectNextCompaction = false;
+				return {
+					compaction: {
+						summary,
+						firstKeptEntryId: preparation.firstKeptEntryId,
+						tokensBefore: preparation.tokensBefore,
+						details,
+					},
+				};
+			} catch (error) {
+				rebuildNextCompaction = false;
+				const message = error instanceof Error ? error.message : String(error);
+				recordObserver(signal.aborted ? "aborted" : "cancelled", {
+					model: observerModelRef(),
+					error: message,
+				});
+				if (signal.aborted) return;
+				// Nothing else is written for a cancelled compaction, so store the failure right away.
+				noteSummarizerFailure("observer", message, [observerLedger, reflectorLedger]);
+				flushSummarizerFailure();
+				if (ctx.hasUI) {
+					ctx.ui.notify(`Observational memory rebuild failed: ${message}. Keeping existing memory.`, "error");
+				}
+				return { cancel: true };
+			} finally {
+				setSummarization(undefined);
+			}
+		}
+
+		// Manual edits apply before the observer and reflector see the log, and again to the final records,
+		// so neither model can bring back a forgotten line or undo a human edit.
+		const editedPreviousRecords = applyMemoryEdits(previousRecords, memoryEdits);
+		const previousSummaryText = previousSummary
+			? preparePreviousSummary(previousSummary, isObservationalCompactionDetails(previousCompaction?.details))
+			: undefined;
+		const previousSummaryForPrompt =
+			memoryEdits.length > 0
+				? applyMemoryEditsToSummary(previousSummaryText ?? "", memoryEdits, previousRecords, {
+						includeSources: false,
+					})
+				: previousSummaryText;
+		const activeTokenCounter = resolveTokenCounter(ctx.model);
+		const observerTokenCounter = resolveTokenCounter(resolved.model);
+		const previousObservationTokens = estimateObservationTokens(previousSummaryForPrompt, activeTokenCounter);
+		const chunkBudget = getObserverChunkBudget(
+			observer.candidates,
+			maxTokens,
+			estimateObservationTokens(previousSummaryForPrompt, observerTokenCounter),
+		);
+		const inputTokens = allMessages.reduce(
+			(sum, message) => sum + estimateMessageTokens(message, observerTokenCounter),
+			0,
+		);
+		const chunks =
+			inputTokens > chunkBudget ? chunkMessagesByTokens(allMessages, chunkBudget, observerTokenCounter) : [allMessages];
 
 		try {
-			const rawSummary = await summarizeWithModel(ctx.model, apiKey, promptText, maxTokens, signal);
-			const normalized = normalizeSummary(rawSummary);
+			const normalized = await observeChunks(chunks, event.branchEntries, observerRun, maxTokens, signal, {
+				previousSummary: previousSummaryForPrompt,
+				customInstructions,
+				isSplitTurn: preparation.isSplitTurn,
+				forceReflect: forceReflectNextCompaction,
+				rebuild: false,
+				onChunk: (chunkIndex, chunkCount) => {
+					if (chunkCount > 1) setSummarization(`observer chunk ${chunkIndex + 1}/${chunkCount}`);
+					if (chunkCount > 1 && ctx.hasUI) {
+						ctx.ui.notify(
+							`Obs observer: input exceeds ${formatTokenCount(chunkBudget)}, observing chunk ${chunkIndex + 1}/${chunkCount}...`,
+							"info",
+						);
+					}
+				},
+			});
 
-			const candidateObservationTokens = estimateObservationTokens(normalized);
+			const candidateObservationTokens = estimateObservationTokens(normalized, activeTokenCounter);
 			const shouldReflectByThreshold =
 				Math.max(previousObservationTokens, candidateObservationTokens) >= reflectorTriggerTokens;
 			const reflectionMode: ReflectionMode = forceReflectNextCompaction
@@ -1029,23 +4977,59 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 					? "threshold"
 					: "none";
 
-			const reflected = reflectSummary(normalized, reflectionMode);
-			const summaryCore = reflected.summary;
+			const edited =
+				memoryEdits.length > 0
+					? applyMemoryEditsToSummary(normalized, memoryEdits, editedPreviousRecords, { includeSources: true })
+					: normalized;
+			const reflected = await runReflectorStage(
+				ctx,
+				edited,
+				reflectionMode,
+				maxTokens,
+				signal,
+				pins,
+				reflectorLedger,
+				customInstructions,
+			);
+			const generatedAt = new Date().toISOString();
+			const pinned = applyPinnedObservations(
+				buildObservationRecords(reflected.summary, editedPreviousRecords, generatedAt),
+				pins,
+				dedupeSimilarityThreshold,
+			);
+			const reinjected = pinned.reinjected;
+			const observations = applyMemoryEdits(pinned.records, memoryEdits);
+			const summaryCore = renderObservationSummary(observations, reflected.summary);
 			const summary = summaryCore + formatFileOperations(preparation.fileOps, previousSummary);
 
 			const details: ObservationalCompactionDetails = {
 				schemaVersion: DETAILS_SCHEMA_VERSION,
 				strategy: "observational-memory",
-				model: buildModelRef(ctx.model),
-				observationCount: reflected.after,
+				model: observerModelRef(),
+				modelRole: "observer",
+				observationCount: observations.length,
 				observationCountBefore: reflected.before,
 				observationCountAfter: reflected.after,
 				observationsDropped: reflected.dropped,
 				reflectorRan: reflectionMode !== "none",
 				reflectionMode,
-				generatedAt: new Date().toISOString(),
+				generatedAt,
 				isSplitTurn: preparation.isSplitTurn,
 				usedPreviousSummary: Boolean(previousSummary),
+				...(chunks.length > 1 ? { observerChunkCount: chunks.length } : {}),
+				...(reflectionMode !== "none"
+					? {
+							reflectorModel: reflected.reflectorModel,
+							observationsDroppedByLlm: reflected.droppedByLlm,
+							observationsDroppedByHeuristic: reflected.droppedByHeuristic,
+							observationsMergedAsNearDuplicates: reflected.merged,
+							llmReflectorError: reflected.llmError,
+						}
+					: {}),
+				...(memoryEdits.length > 0 ? { memoryEditsApplied: memoryEdits.length } : {}),
+				...(pins.length > 0 ? { pinnedCount: pins.length, pinsReinjected: reinjected } : {}),
+				...compactionLedgerDetails(),
+				observations,
 			};
 
 			const compaction: CompactionResult<ObservationalCompactionDetails> = {
@@ -1055,14 +5039,25 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				details,
 			};
 
+			recordObserver("success", {
+				model: details.model,
+				summaryTokens: estimateTextTokens(summary, activeTokenCounter),
+				observationsBefore: previousRecords.length,
+				observationsAfter: observations.length,
+				chunks: chunks.length,
+			});
 			forceReflectNextCompaction = false;
 			return { compaction };
 		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			recordObserver(signal.aborted ? "aborted" : "fallback", { model: observerModelRef(), error: message });
+			if (!signal.aborted) noteSummarizerFailure("observer", message, [observerLedger, reflectorLedger]);
 			if (!signal.aborted && ctx.hasUI) {
-				const message = error instanceof Error ? error.message : String(error);
 				ctx.ui.notify(`Observational memory failed: ${message}. Using default compaction.`, "error");
 			}
 			return;
+		} finally {
+			setSummarization(undefined);
 		}
 	});
 
@@ -1071,30 +5066,41 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 		if (!preparation.userWantsSummary) return;
 		if (preparation.entriesToSummarize.length === 0) return;
 
-		if (!ctx.model) {
-			if (ctx.hasUI) {
-				ctx.ui.notify("Observational memory(tree): no active model, using default tree summary", "warning");
-			}
-			return;
-		}
-
-		const apiKey = await ctx.modelRegistry.getApiKey(ctx.model);
-		if (!apiKey) {
+		const startedAt = Date.now();
+		const ledger = createSummarizerLedger();
+		const recordTree = (
+			outcome: TelemetryOutcome,
+			fields: Partial<Pick<TelemetryRecord, "model" | "summaryTokens" | "observationsAfter" | "error">>,
+		) =>
+			recordTelemetry(
+				ctx,
+				{ kind: "tree", trigger: "tree", outcome, latencyMs: Date.now() - startedAt, ...fields },
+				ledger,
+			);
+		const observer = await resolveRoleModel(ctx, observerModelChain);
+		const { resolved, failures } = observer;
+		if (!resolved) {
+			recordTree("fallback", { error: `no usable observer model (${failures.join("; ")})` });
 			if (ctx.hasUI) {
 				ctx.ui.notify(
-					`Observational memory(tree): missing API key for ${buildModelRef(ctx.model)}, using default tree summary`,
+					`Observational memory(tree): no usable observer model (${failures.join("; ")}), using default tree summary`,
 					"warning",
 				);
 			}
 			return;
 		}
 
-		const tokenBudget =
-			ctx.model.contextWindow > DEFAULT_RESERVE_TOKENS ? ctx.model.contextWindow - DEFAULT_RESERVE_TOKENS : 0;
-		const branchPreparation = prepareBranchEntries(preparation.entriesToSummarize, tokenBudget);
+		const { model } = resolved;
+		// The smallest candidate window, so a fallback model can take the whole branch too.
+		const contextWindow = Math.min(...observer.candidates.map((candidate) => candidate.model.contextWindow));
+		const tokenBudget = contextWindow > DEFAULT_RESERVE_TOKENS ? contextWindow - DEFAULT_RESERVE_TOKENS : 0;
+		const branchPreparation = prepareBranchEntries(
+			preparation.entriesToSummarize.filter((entry) => !isProjectMemoryEntry(entry)),
+			tokenBudget,
+		);
 		if (branchPreparation.messages.length === 0) return;
 
-		const conversationText = serializeConversation(convertToLlm(branchPreparation.messages));
+		const conversationText = serializeTaggedConversation(branchPreparation.messages, preparation.entriesToSummarize);
 		const promptText = buildTreePrompt(conversationText, {
 			customInstructions: preparation.customInstructions,
 			replaceInstructions: preparation.replaceInstructions,
@@ -1102,32 +5108,120 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 
 		const maxTokens = Math.max(512, Math.floor(DEFAULT_RESERVE_TOKENS * 0.6));
 
+		setSummarization("branch summary");
 		try {
-			const rawSummary = await summarizeWithModel(ctx.model, apiKey, promptText, maxTokens, signal);
-			const summaryCore = normalizeSummary(rawSummary);
+			const run = createRun(ctx, "tree", observer, ledger);
+			const rawSummary = await summarizeWithModel(run, promptText, maxTokens, signal);
+			const summaryCore = await enforceSummaryFormat(run, rawSummary, maxTokens, signal, { salvage: true });
 			const summary = summaryCore + formatFileOperations(branchPreparation.fileOps);
 			const details: ObservationalBranchSummaryDetails = {
 				schemaVersion: DETAILS_SCHEMA_VERSION,
 				strategy: "observational-memory-tree",
-				model: buildModelRef(ctx.model),
+				model: buildModelRef((run.current ?? resolved).model),
 				observationCount: countObservationLines(summaryCore),
 				generatedAt: new Date().toISOString(),
 				entryCount: preparation.entriesToSummarize.length,
+				usage: ledger.usage,
+				attempts: ledger.attempts,
+				...formatReportDetails([ledger.format]),
 			};
 
+			recordTree("success", {
+				model: details.model,
+				summaryTokens: estimateTextTokens(summary, resolveTokenCounter(ctx.model)),
+				observationsAfter: details.observationCount,
+			});
 			return { summary: { summary, details } };
 		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			recordTree(signal.aborted ? "aborted" : "fallback", { model: buildModelRef(model), error: message });
+			if (!signal.aborted) noteSummarizerFailure("tree", message, [ledger]);
 			if (!signal.aborted && ctx.hasUI) {
-				const message = error instanceof Error ? error.message : String(error);
 				ctx.ui.notify(`Observational memory(tree) failed: ${message}. Using default tree summary.`, "error");
 			}
 			return;
+		} finally {
+			setSummarization(undefined);
 		}
 	});
 
-	pi.on("session_compact", async () => {
+	pi.on("session_compact", async (event, ctx) => {
+		flushSummarizerFailure();
 		forceReflectNextCompaction = false;
-		autoCompactInFlight = false;
+		rebuildNextCompaction = false;
+		setAutoCompactInFlight(false);
+
+		if (!projectMemoryEnabled || !event.fromExtension) return;
+		if (!isObservationalCompactionDetails(event.compactionEntry.details)) return;
+
+		const path = getProjectMemoryPath(ctx.cwd);
+		try {
+			const { store, error } = readProjectMemory(path);
+			if (error) {
+				if (ctx.hasUI) {
+					ctx.ui.notify(`Observational memory: not updating project memory (${error}).`, "warning");
+				}
+				return;
+			}
+			const merged = mergeProjectMemory(
+				store.observations,
+				readObservationRecords(event.compactionEntry),
+				ctx.sessionManager.getSessionId(),
+				new Date().toISOString(),
+			);
+			const collected = collectProjectMemory(
+				merged,
+				projectMemoryBudget,
+				resolveTokenCounter(ctx.model),
+				dedupeSimilarityThreshold,
+			);
+			writeProjectMemory(path, collected.observations);
+		} catch (error) {
+			if (ctx.hasUI) {
+				const message = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Observational memory: unable to update project memory at ${path}: ${message}`, "warning");
+			}
+		}
+	});
+
+	pi.on("before_agent_start", async (_event, ctx) => {
+		if (!projectMemoryEnabled) return;
+
+		// Only the first prompt of a fresh session gets the project memory.
+		const started = ctx.sessionManager
+			.getBranch()
+			.some(
+				(entry) =>
+					entry.type === "compaction" ||
+					isProjectMemoryEntry(entry) ||
+					(entry.type === "message" && entry.message.role === "assistant"),
+			);
+		if (started) return;
+
+		const path = getProjectMemoryPath(ctx.cwd);
+		const { store, error } = readProjectMemory(path);
+		if (error) {
+			if (ctx.hasUI) {
+				ctx.ui.notify(`Observational memory: ignoring project memory (${error}).`, "warning");
+			}
+			return;
+		}
+		if (store.observations.length === 0) return;
+
+		if (ctx.hasUI) {
+			ctx.ui.notify(
+				`Observational memory: added ${store.observations.length} project observations from earlier sessions (/${OBS_PROJECT_COMMAND} to inspect).`,
+				"info",
+			);
+		}
+		return {
+			message: {
+				customType: PROJECT_MEMORY_MESSAGE_TYPE,
+				content: renderProjectMemoryContext(store.observations),
+				display: false,
+				details: { path, updatedAt: store.updatedAt, observationCount: store.observations.length },
+			},
+		};
 	});
 
 	pi.registerCommand(OBS_STATUS_COMMAND, {
@@ -1141,24 +5235,55 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 			const branchEntries = ctx.sessionManager.getBranch();
 			const lastCompaction = [...branchEntries].reverse().find((entry) => entry.type === "compaction");
 			const lastBranchSummary = [...branchEntries].reverse().find((entry) => entry.type === "branch_summary");
-			const rawTailTokens = estimateRawTailTokens(branchEntries);
-			const observationTokens = estimateObservationTokens(lastCompaction?.summary);
+			const tokenCounter = resolveTokenCounter(ctx.model);
+			const rawTailTokens = estimateRawTailTokens(branchEntries, tokenCounter);
+			const observationTokens = estimateObservationTokens(lastCompaction?.summary, tokenCounter);
 			const activationThreshold = getObserverActivationThreshold(observerTriggerTokens, rawTailRetainTokens);
 
 			const lines = [
 				"Observational Memory Status",
 				"",
-				`Observer auto-trigger: ${autoObserverEnabled ? "on" : "off"}`,
-				`Observer mode: ${autoCompactionMode}`,
-				`Observer threshold: ${formatTokenCount(observerTriggerTokens)}`,
-				`Raw-tail retain: ${formatTokenCount(rawTailRetainTokens)}`,
+				withSource("autoCompact", `Observer auto-trigger: ${autoObserverEnabled ? "on" : "off"}`),
+				withSource("mode", `Observer mode: ${autoCompactionMode}`),
+				withSource("observerModels", `Observer models: ${formatModelChain(observerModelChain)}`),
+				withSource("reflectorModels", `Reflector models: ${formatModelChain(reflectorModelChain)}`),
+				withSource("observerThreshold", `Observer threshold: ${formatTokenCount(observerTriggerTokens)}`),
+				withSource("retainRawTail", `Raw-tail retain: ${formatTokenCount(rawTailRetainTokens)}`),
 				`Observer activation threshold: ${formatTokenCount(activationThreshold)}`,
-				`Raw tail now: ${formatTokenCount(rawTailTokens)}`,
-				`Reflector threshold: ${formatTokenCount(reflectorTriggerTokens)}`,
-				`Observation block now: ${formatTokenCount(observationTokens)}`,
+				`Token counting: ${tokenCounter.name} (${formatTokenMargin(tokenCounter)})`,
+				`Raw tail now: ${formatTokenCount(rawTailTokens)} ${formatTokenMargin(tokenCounter)}`,
+				withSource("reflectorThreshold", `Reflector threshold: ${formatTokenCount(reflectorTriggerTokens)}`),
+				withSource(
+					"dedupeSimilarity",
+					`Near-duplicate similarity: ${formatSimilarityThreshold(dedupeSimilarityThreshold)}`,
+				),
+				`Observation block now: ${formatTokenCount(observationTokens)} ${formatTokenMargin(tokenCounter)}`,
 				`Auto-compact in flight: ${autoCompactInFlight ? "yes" : "no"}`,
 				`Force-reflect pending: ${forceReflectNextCompaction ? "yes" : "no"}`,
+				`Rebuild pending: ${rebuildNextCompaction ? "yes" : "no"}`,
+				`Pinned observations: ${readPinnedObservations(branchEntries).length}`,
+				`Pending memory edits: ${readMemoryEdits(branchEntries, { pendingOnly: true }).length}`,
+				withSource(
+					"projectMemory",
+					`Project memory: ${projectMemoryEnabled ? "on" : "off"}, budget ${formatTokenCount(projectMemoryBudget)}`,
+				),
+				withSource("telemetry", `Telemetry: ${telemetryEnabled ? "on" : "off"} (/${OBS_STATS_COMMAND})`),
+				withSource("summarizerTimeout", `Summarizer timeout: ${formatSettingDuration(summarizerPolicy.timeoutMs)}`),
+				withSource("summarizerRetries", `Summarizer retries: ${summarizerPolicy.retries} per model`),
+				withSource(
+					"summarizerBackoff",
+					`Summarizer backoff: ${formatSettingDuration(summarizerPolicy.backoffMs)}, doubling`,
+				),
 			];
+			const branchUsage = sumBranchUsage(branchEntries);
+			if (branchUsage) lines.push(`Summarizer usage (branch): ${formatUsage(branchUsage)}`);
+			const lastFailure = readLastSummarizerFailure(branchEntries);
+			if (lastFailure) {
+				lines.push(
+					`Last failed summarizer run: ${lastFailure.kind} at ${lastFailure.at}: ${lastFailure.error}`,
+					...formatAttemptLines(lastFailure.attempts),
+				);
+			}
 
 			if (lastCompaction) {
 				lines.push(
@@ -1174,14 +5299,25 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				if (details) {
 					lines.push(
 						`  strategy: ${details.strategy}`,
-						`  model: ${details.model}`,
+						`  model: ${details.model}${details.modelRole ? ` (${details.modelRole})` : ""}`,
 						`  observations: ${details.observationCount}`,
 						`  reflectorRan: ${details.reflectorRan ? "yes" : "no"} (${details.reflectionMode})`,
-						`  dropped: ${details.observationsDropped}`,
+						`  dropped: ${formatDroppedBreakdown(details)}`,
+						...(details.pinnedCount
+							? [`  pinned: ${details.pinnedCount} (reinjected ${details.pinsReinjected ?? 0})`]
+							: []),
+						...(details.memoryEditsApplied ? [`  memoryEditsApplied: ${details.memoryEditsApplied}`] : []),
+						...(details.reflectorModel ? [`  reflectorModel: ${details.reflectorModel}`] : []),
+						...(details.llmReflectorError ? [`  llmReflectorError: ${details.llmReflectorError}`] : []),
+						...(details.observerChunkCount ? [`  observerChunks: ${details.observerChunkCount}`] : []),
+						...(details.rebuildChunkCount ? [`  rebuildChunks: ${details.rebuildChunkCount}`] : []),
 						`  splitTurn: ${details.isSplitTurn ? "yes" : "no"}`,
 						`  usedPreviousSummary: ${details.usedPreviousSummary ? "yes" : "no"}`,
 						`  generatedAt: ${details.generatedAt}`,
 					);
+					const usage = readSummarizerUsage(details);
+					if (usage) lines.push(`  usage: ${formatUsage(usage)}`);
+					lines.push(...formatAttemptLines(details.attempts), ...formatFormatLines(details));
 				}
 			} else {
 				lines.push("", "No compaction entries found in current branch.");
@@ -1203,6 +5339,9 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 						`  entryCount: ${details.entryCount}`,
 						`  generatedAt: ${details.generatedAt}`,
 					);
+					const usage = readSummarizerUsage(details);
+					if (usage) lines.push(`  usage: ${formatUsage(usage)}`);
+					lines.push(...formatAttemptLines(details.attempts), ...formatFormatLines(details));
 				}
 			}
 
@@ -1226,39 +5365,56 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				ctx.ui.notify(
 					[
 						"Observational auto-compaction",
-						`observer trigger enabled: ${autoObserverEnabled ? "yes" : "no"}`,
-						`mode: ${autoCompactionMode}`,
-						`observer threshold: ${formatTokenCount(observerTriggerTokens)}`,
-						`reflector threshold: ${formatTokenCount(reflectorTriggerTokens)}`,
-						`raw-tail retain: ${formatTokenCount(rawTailRetainTokens)}`,
+						withSource("autoCompact", `observer trigger enabled: ${autoObserverEnabled ? "yes" : "no"}`),
+						withSource("mode", `mode: ${autoCompactionMode}`),
+						withSource("observerThreshold", `observer threshold: ${formatTokenCount(observerTriggerTokens)}`),
+						withSource("reflectorThreshold", `reflector threshold: ${formatTokenCount(reflectorTriggerTokens)}`),
+						withSource("retainRawTail", `raw-tail retain: ${formatTokenCount(rawTailRetainTokens)}`),
+						withSource(
+							"dedupeSimilarity",
+							`near-duplicate similarity: ${formatSimilarityThreshold(dedupeSimilarityThreshold)}`,
+						),
+						withSource("reflectorCaps", `reflector caps 🔴/🟡/🟢: ${formatReflectorCaps(reflectorCaps)}`),
+						withSource(
+							"forcedReflectorCaps",
+							`forced reflector caps 🔴/🟡/🟢: ${formatReflectorCaps(forcedReflectorCaps)}`,
+						),
 						`observer activation threshold: ${formatTokenCount(activationThreshold)}`,
 						`allowed threshold range: ${formatTokenCount(AUTO_TOKENS_MIN)} - ${formatTokenCount(AUTO_TOKENS_MAX)}`,
-						"usage: /obs-auto-compact [on|off] [mode] [observerTokens] [reflectorTokens] [retainTokens]",
-						"keyed usage: /obs-auto-compact mode=buffered observer=30k reflector=40k retain=8k",
-						"examples: /obs-auto-compact on buffered 30k 40k 8k | /obs-auto-compact retain=0",
+						"usage: /obs-auto-compact [on|off] [mode] [observerTokens] [reflectorTokens] [retainTokens] [save[=project|global]]",
+						"keyed usage: /obs-auto-compact mode=buffered observer=30k reflector=40k retain=8k similarity=0.5 caps=96/40/16 forced-caps=72/28/8",
+						"examples: /obs-auto-compact on buffered 30k 40k 8k | /obs-auto-compact retain=0 save=global",
+						"sources: default < global < project < flag < runtime",
 					].join("\n"),
 					"info",
 				);
 				return;
 			}
 
-			let nextEnabled = autoObserverEnabled;
-			let nextMode = autoCompactionMode;
-			let nextObserver = observerTriggerTokens;
-			let nextReflector = reflectorTriggerTokens;
-			let nextRetain = rawTailRetainTokens;
+			const patch: ObservationalMemoryConfig = {};
+			let saveScope: ConfigScope | undefined;
 			let positionalTokenCount = 0;
 
 			for (const token of raw.split(/\s+/)) {
+				const save = parseSaveToken(token);
+				if (save === "invalid") {
+					ctx.ui.notify(`Invalid save scope "${token}". Use save=project or save=global.`, "warning");
+					return;
+				}
+				if (save) {
+					saveScope = save;
+					continue;
+				}
+
 				const enabled = parseEnabledToken(token);
 				if (enabled !== undefined) {
-					nextEnabled = enabled;
+					patch.autoCompact = enabled;
 					continue;
 				}
 
 				const mode = parseAutoCompactionMode(token);
 				if (mode) {
-					nextMode = mode;
+					patch.mode = mode;
 					continue;
 				}
 
@@ -1273,7 +5429,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(`Invalid mode "${value}". Use buffered or blocking.`, "warning");
 							return;
 						}
-						nextMode = parsedMode;
+						patch.mode = parsedMode;
 						continue;
 					}
 
@@ -1283,7 +5439,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(`Invalid enabled value "${value}". Use on/off.`, "warning");
 							return;
 						}
-						nextEnabled = parsedEnabled;
+						patch.autoCompact = parsedEnabled;
 						continue;
 					}
 
@@ -1293,7 +5449,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(`Invalid observer threshold "${value}". Use values like 30000 or 30k.`, "warning");
 							return;
 						}
-						nextObserver = parsed;
+						patch.observerThreshold = parsed;
 						continue;
 					}
 
@@ -1303,7 +5459,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(`Invalid reflector threshold "${value}". Use values like 40000 or 40k.`, "warning");
 							return;
 						}
-						nextReflector = parsed;
+						patch.reflectorThreshold = parsed;
 						continue;
 					}
 
@@ -1313,12 +5469,38 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(`Invalid raw-tail retain value "${value}". Use values like 8000, 8k, or 0.`, "warning");
 							return;
 						}
-						nextRetain = parsed;
+						patch.retainRawTail = parsed;
+						continue;
+					}
+
+					if (key === "similarity" || key === "dedupe" || key === "merge") {
+						const parsed = parseSimilarityThreshold(value);
+						if (parsed === undefined) {
+							ctx.ui.notify(
+								`Invalid similarity threshold "${value}". Use a ratio or percentage between ${DEDUPE_SIMILARITY_MIN} and 1 (e.g. 0.5, 60%, exact, off).`,
+								"warning",
+							);
+							return;
+						}
+						patch.dedupeSimilarity = parsed;
+						continue;
+					}
+
+					if (key === "caps" || key === "forced-caps" || key === "forcedcaps") {
+						const parsed = parseReflectorCaps(value);
+						if (!parsed) {
+							ctx.ui.notify(
+								`Invalid reflector caps "${value}". Use three counts (🔴/🟡/🟢) between 1 and ${REFLECTOR_CAP_MAX}, e.g. 96/40/16.`,
+								"warning",
+							);
+							return;
+						}
+						patch[key === "caps" ? "reflectorCaps" : "forcedReflectorCaps"] = parsed;
 						continue;
 					}
 
 					ctx.ui.notify(
-						`Unknown keyed argument "${key}". Use mode=..., observer=..., reflector=..., retain=..., enabled=...`,
+						`Unknown keyed argument "${key}". Use mode=..., observer=..., reflector=..., retain=..., similarity=..., caps=..., forced-caps=..., enabled=...`,
 						"warning",
 					);
 					return;
@@ -1327,7 +5509,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				if (positionalTokenCount === 0) {
 					const parsed = parseTokenCount(token);
 					if (parsed !== undefined) {
-						nextObserver = parsed;
+						patch.observerThreshold = parsed;
 						positionalTokenCount++;
 						continue;
 					}
@@ -1335,7 +5517,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				if (positionalTokenCount === 1) {
 					const parsed = parseTokenCount(token);
 					if (parsed !== undefined) {
-						nextReflector = parsed;
+						patch.reflectorThreshold = parsed;
 						positionalTokenCount++;
 						continue;
 					}
@@ -1343,7 +5525,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				if (positionalTokenCount === 2) {
 					const parsed = parseRetainRawTailTokenCount(token);
 					if (parsed !== undefined) {
-						nextRetain = parsed;
+						patch.retainRawTail = parsed;
 						positionalTokenCount++;
 						continue;
 					}
@@ -1356,25 +5538,42 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				return;
 			}
 
-			autoObserverEnabled = nextEnabled;
-			autoCompactionMode = nextMode;
-			observerTriggerTokens = nextObserver;
-			reflectorTriggerTokens = nextReflector;
-			rawTailRetainTokens = nextRetain;
+			if (Object.keys(patch).length === 0 && saveScope) {
+				patch.autoCompact = autoObserverEnabled;
+				patch.mode = autoCompactionMode;
+				patch.observerThreshold = observerTriggerTokens;
+				patch.reflectorThreshold = reflectorTriggerTokens;
+				patch.retainRawTail = rawTailRetainTokens;
+				patch.dedupeSimilarity = dedupeSimilarityThreshold;
+				patch.reflectorCaps = reflectorCaps;
+				patch.forcedReflectorCaps = forcedReflectorCaps;
+			}
+
+			const savedNote = updateSettings(ctx, patch, saveScope);
 			if (!autoObserverEnabled) {
-				autoCompactInFlight = false;
+				setAutoCompactInFlight(false);
 			}
 
 			const activationThreshold = getObserverActivationThreshold(observerTriggerTokens, rawTailRetainTokens);
 			ctx.ui.notify(
 				[
 					"Observational auto-compaction updated:",
-					`- observer trigger: ${autoObserverEnabled ? "on" : "off"}`,
-					`- mode: ${autoCompactionMode}`,
-					`- observer threshold: ${formatTokenCount(observerTriggerTokens)}`,
-					`- reflector threshold: ${formatTokenCount(reflectorTriggerTokens)}`,
-					`- raw-tail retain: ${formatTokenCount(rawTailRetainTokens)}`,
+					withSource("autoCompact", `- observer trigger: ${autoObserverEnabled ? "on" : "off"}`),
+					withSource("mode", `- mode: ${autoCompactionMode}`),
+					withSource("observerThreshold", `- observer threshold: ${formatTokenCount(observerTriggerTokens)}`),
+					withSource("reflectorThreshold", `- reflector threshold: ${formatTokenCount(reflectorTriggerTokens)}`),
+					withSource("retainRawTail", `- raw-tail retain: ${formatTokenCount(rawTailRetainTokens)}`),
+					withSource(
+						"dedupeSimilarity",
+						`- near-duplicate similarity: ${formatSimilarityThreshold(dedupeSimilarityThreshold)}`,
+					),
+					withSource("reflectorCaps", `- reflector caps 🔴/🟡/🟢: ${formatReflectorCaps(reflectorCaps)}`),
+					withSource(
+						"forcedReflectorCaps",
+						`- forced reflector caps 🔴/🟡/🟢: ${formatReflectorCaps(forcedReflectorCaps)}`,
+					),
 					`- observer activation threshold: ${formatTokenCount(activationThreshold)}`,
+					...(savedNote ? [`- ${savedNote}`] : []),
 				].join("\n"),
 				"info",
 			);
@@ -1396,28 +5595,132 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 				ctx.ui.notify(
 					[
 						"Observational mode",
-						`current: ${autoCompactionMode}`,
+						withSource("mode", `current: ${autoCompactionMode}`),
 						"buffered: observer runs in background on agent_end",
 						"blocking: disable observer background trigger; only regular/manual compaction runs",
-						"usage: /obs-mode buffered|blocking",
+						"usage: /obs-mode buffered|blocking [save[=project|global]]",
 					].join("\n"),
 					"info",
 				);
 				return;
 			}
 
-			const parsedMode = parseAutoCompactionMode(raw);
-			if (!parsedMode) {
-				ctx.ui.notify(`Invalid mode "${raw}". Use buffered or blocking.`, "warning");
+			let saveScope: ConfigScope | undefined;
+			let parsedMode: AutoCompactionMode | undefined;
+			for (const token of raw.split(/\s+/)) {
+				const save = parseSaveToken(token);
+				if (save === "invalid") {
+					ctx.ui.notify(`Invalid save scope "${token}". Use save=project or save=global.`, "warning");
+					return;
+				}
+				if (save) {
+					saveScope = save;
+					continue;
+				}
+
+				parsedMode = parseAutoCompactionMode(token);
+				if (!parsedMode) {
+					ctx.ui.notify(`Invalid mode "${token}". Use buffered or blocking.`, "warning");
+					return;
+				}
+			}
+
+			const savedNote = updateSettings(ctx, { mode: parsedMode ?? autoCompactionMode }, saveScope);
+			if (autoCompactionMode === "blocking") {
+				setAutoCompactInFlight(false);
+			}
+
+			ctx.ui.notify(
+				[
+					`Observational mode updated: ${withSource("mode", autoCompactionMode)}.`,
+					...(savedNote ? [savedNote] : []),
+				].join("\n"),
+				"info",
+			);
+		},
+	});
+
+	pi.registerCommand(OBS_MODEL_COMMAND, {
+		description: "Show or set observer/reflector model fallback chains",
+		handler: async (args, ctx) => {
+			const tokens = args
+				.trim()
+				.split(/\s+/)
+				.filter((part) => part.length > 0);
+
+			if (tokens.length === 0) {
+				const lines = ["Observational models"];
+				for (const role of ["observer", "reflector"] as const) {
+					const chain = getModelChain(role);
+					const { resolved, failures } = await resolveRoleModel(ctx, chain);
+					lines.push(
+						withSource(
+							role === "observer" ? "observerModels" : "reflectorModels",
+							`${role} chain: ${formatModelChain(chain)}`,
+						),
+						`${role} resolves to: ${resolved ? buildModelRef(resolved.model) : "none (default compaction fallback)"}`,
+						...failures.map((failure) => `  skipped ${failure}`),
+					);
+				}
+				lines.push(
+					"usage: /obs-model observer|reflector <provider/model[,provider/model...]|active|reset> [save[=project|global]]",
+					`examples: /obs-model observer anthropic/claude-haiku-4-5,${ACTIVE_MODEL_REF} | /obs-model reflector reset save`,
+				);
+				ctx.ui.notify(lines.join("\n"), "info");
+				return;
+			}
+
+			const role = parseModelRole(tokens[0]);
+			if (!role) {
+				ctx.ui.notify(`Unknown model role "${tokens[0]}". Use observer or reflector.`, "warning");
 				return;
 			}
 
-			autoCompactionMode = parsedMode;
-			if (autoCompactionMode === "blocking") {
-				autoCompactInFlight = false;
+			let saveScope: ConfigScope | undefined;
+			const chainTokens: string[] = [];
+			for (const token of tokens.slice(1)) {
+				const save = parseSaveToken(token);
+				if (save === "invalid") {
+					ctx.ui.notify(`Invalid save scope "${token}". Use save=project or save=global.`, "warning");
+					return;
+				}
+				if (save) {
+					saveScope = save;
+					continue;
+				}
+				chainTokens.push(token);
+			}
+
+			const settingKey = role === "observer" ? "observerModels" : "reflectorModels";
+			if (chainTokens.length === 0 && !saveScope) {
+				ctx.ui.notify(withSource(settingKey, `${role} chain: ${formatModelChain(getModelChain(role))}`), "info");
+				return;
+			}
+
+			const nextChain =
+				chainTokens.length === 0
+					? [...getModelChain(role)]
+					: chainTokens.length === 1 && ["reset", "default"].includes(chainTokens[0].toLowerCase())
+						? [...DEFAULT_MODEL_CHAIN]
+						: parseModelChain(chainTokens.join(","));
+			if (!nextChain) {
+				ctx.ui.notify(
+					`Invalid model chain "${chainTokens.join(" ")}". Use provider/model entries or ${ACTIVE_MODEL_REF}, separated by commas.`,
+					"warning",
+				);
+				return;
 			}
 
-			ctx.ui.notify(`Observational mode updated: ${autoCompactionMode}.`, "info");
+			const savedNote = updateSettings(ctx, { [settingKey]: nextChain }, saveScope);
+			const { resolved, failures } = await resolveRoleModel(ctx, nextChain);
+			const lines = [
+				withSource(settingKey, `Observational ${role} chain updated: ${formatModelChain(nextChain)}`),
+				`resolves to: ${resolved ? buildModelRef(resolved.model) : "none (default compaction fallback)"}`,
+				...failures.map((failure) => `  skipped ${failure}`),
+				...(savedNote ? [savedNote] : []),
+			];
+
+			ctx.ui.notify(lines.join("\n"), resolved ? "info" : "warning");
 		},
 	});
 
@@ -1432,7 +5735,7 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 			}
 
 			let includeFileTags = false;
-			let section: "all" | "observations" = "all";
+			let section: "all" | "observations" | "pinned" = "all";
 			let maxLines = 160;
 			for (const token of args
 				.trim()
@@ -1447,6 +5750,10 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 					section = "observations";
 					continue;
 				}
+				if (["pin", "pins", "pinned"].includes(normalized)) {
+					section = "pinned";
+					continue;
+				}
 
 				const parsedNumber = Number.parseInt(normalized, 10);
 				if (Number.isFinite(parsedNumber) && parsedNumber > 0) {
@@ -1454,19 +5761,26 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 					continue;
 				}
 
-				ctx.ui.notify(`Unknown argument "${token}". Use: raw|obs|<maxLines>. Example: /obs-view obs 120`, "warning");
+				ctx.ui.notify(
+					`Unknown argument "${token}". Use: raw|obs|pinned|<maxLines>. Example: /obs-view obs 120`,
+					"warning",
+				);
 				return;
 			}
 
 			const baseSummary = includeFileTags ? lastCompaction.summary : stripFileTags(lastCompaction.summary);
+			const pins = readPinnedObservations(branchEntries);
+			const pinnedSection = pins.length > 0 ? `${renderPinnedSection(pins).join("\n")}\n\n` : "";
 			const rendered =
-				section === "observations"
-					? [
-							"## Observations",
-							extractSection(baseSummary, "## Observations", "## Open Threads") ||
-								"Date: unknown\n- 🟡 No observations found.",
-						].join("\n")
-					: baseSummary;
+				section === "pinned"
+					? pinnedSection.trim() || "## Pinned\n- (none)"
+					: section === "observations"
+						? [
+								`${pinnedSection}## Observations`,
+								extractSection(baseSummary, "## Observations", "## Open Threads") ||
+									"Date: unknown\n- 🟡 No observations found.",
+							].join("\n")
+						: pinnedSection + baseSummary;
 
 			const lines = rendered.split("\n");
 			const clipped = lines.slice(0, maxLines);
@@ -1522,4 +5836,563 @@ export default function observationalMemoryExtension(pi: ExtensionAPI) {
 			});
 		},
 	});
+
+	pi.registerCommand(OBS_DIFF_COMMAND, {
+		description: "Show what changed between two compactions (default: the latest and the one before it)",
+		handler: async (args, ctx) => {
+			const compactions = ctx.sessionManager
+				.getBranch()
+				.filter((entry): entry is CompactionEntry => entry.type === "compaction");
+			if (compactions.length < 2) {
+				ctx.ui.notify("Need at least two compactions on the current branch to diff.", "warning");
+				return;
+			}
+
+			const tokens = args
+				.trim()
+				.split(/\s+/)
+				.filter((part) => part.length > 0);
+			if (tokens.length > 2) {
+				ctx.ui.notify(
+					`Usage: /${OBS_DIFF_COMMAND} [n] | [from] [to] (compaction ids or counts back, 0 = latest)`,
+					"warning",
+				);
+				return;
+			}
+
+			const refs = tokens.length === 2 ? tokens : [tokens[0] ?? "1", "0"];
+			const indexes = refs.map((token) => resolveCompactionRef(compactions, token));
+			const invalid = refs.find((_token, index) => indexes[index] === undefined);
+			if (invalid !== undefined) {
+				ctx.ui.notify(
+					`Unknown compaction "${invalid}". Use an id or a count back from the latest (0-${compactions.length - 1}).`,
+					"warning",
+				);
+				return;
+			}
+
+			const [fromIndex, toIndex] = indexes as [number, number];
+			if (fromIndex === toIndex) {
+				ctx.ui.notify("Both operands point at the same compaction.", "warning");
+				return;
+			}
+
+			const diff = diffCompactions(compactions[fromIndex], compactions[toIndex]);
+			const theme = ctx.ui.theme;
+			const styled = (line: CompactionDiffLine) => {
+				const text = formatCompactionDiffLine(line);
+				if (line.change === "added") return theme.fg("toolDiffAdded", text);
+				if (line.change === "removed") return theme.fg("toolDiffRemoved", text);
+				return theme.fg("warning", text);
+			};
+			const sections: Array<[CompactionDiffSection, string]> = [
+				["observations", "Observations"],
+				["open-threads", "Open threads"],
+				["read-files", "Read files"],
+				["modified-files", "Modified files"],
+			];
+
+			ctx.ui.notify(
+				[
+					`Compaction diff (${formatCompactionDiffCounts(diff)})`,
+					`from: ${diff.from.id} (#${fromIndex + 1}, ${new Date(diff.from.timestamp).toLocaleString()}, ${diff.from.observations} observations)`,
+					`to:   ${diff.to.id} (#${toIndex + 1}, ${new Date(diff.to.timestamp).toLocaleString()}, ${diff.to.observations} observations)`,
+					...(diff.lines.length === 0 ? ["", "No differences."] : []),
+					...sections.flatMap(([section, title]) => {
+						const lines = diff.lines.filter((line) => line.section === section);
+						return lines.length > 0 ? ["", `## ${title}`, ...lines.map(styled)] : [];
+					}),
+				].join("\n"),
+				"info",
+			);
+		},
+	});
+
+	pi.registerCommand(OBS_STATS_COMMAND, {
+		description: "Summarize the telemetry log per session and per model",
+		handler: async (_args, ctx) => {
+			const path = getTelemetryPath(ctx.cwd);
+			const { records, error } = readTelemetry(path);
+			if (error) {
+				ctx.ui.notify(`Unable to read telemetry: ${error}`, "error");
+				return;
+			}
+			if (records.length === 0) {
+				ctx.ui.notify(
+					telemetryEnabled
+						? `No telemetry recorded yet (${path}).`
+						: `No telemetry recorded yet; telemetry is disabled (--${SETTING_FLAGS.telemetry}).`,
+					"info",
+				);
+				return;
+			}
+
+			const groupBy = (key: (record: TelemetryRecord) => string) => {
+				const groups = new Map<string, TelemetryRecord[]>();
+				for (const record of records) {
+					const group = groups.get(key(record)) ?? [];
+					group.push(record);
+					groups.set(key(record), group);
+				}
+				// Most recently active first; records are appended in time order.
+				return [...groups.entries()].sort(
+					(a, b) => Date.parse(b[1][b[1].length - 1].at) - Date.parse(a[1][a[1].length - 1].at),
+				);
+			};
+			const currentSessionId = ctx.sessionManager.getSessionId();
+			const sessions = groupBy((record) => record.sessionId);
+			const models = groupBy((record) => record.model ?? "(no model)");
+
+			ctx.ui.notify(
+				[
+					`Observational memory stats (${records.length} runs, ${sessions.length} sessions)`,
+					`log: ${path}${telemetryEnabled ? "" : " (recording disabled)"}`,
+					"",
+					formatTelemetryGroup("all", records),
+					"",
+					"## Sessions",
+					...sessions
+						.slice(0, STATS_MAX_SESSIONS)
+						.map(([sessionId, group]) =>
+							formatTelemetryGroup(`${sessionId}${sessionId === currentSessionId ? " (current)" : ""}`, group),
+						),
+					...(sessions.length > STATS_MAX_SESSIONS
+						? [`... ${sessions.length - STATS_MAX_SESSIONS} older sessions`]
+						: []),
+					"",
+					"## Models",
+					...models.map(([model, group]) => formatTelemetryGroup(model, group)),
+				].join("\n"),
+				"info",
+			);
+		},
+	});
+
+	pi.registerCommand(OBS_TRACE_COMMAND, {
+		description: "Show the session entries an observation was derived from",
+		handler: async (args, ctx) => {
+			await traceObservation(ctx, args);
+		},
+	});
+
+	pi.registerCommand(OBS_ADD_COMMAND, {
+		description: "Add an observation to memory at the next compaction (/obs-add <red|yellow|green> <text>)",
+		handler: async (args, ctx) => {
+			const { priority, body } = parseObservationInput(args);
+			const key = normalizeObservationKey(body);
+			if (!priority || !key) {
+				ctx.ui.notify(
+					"Usage: /obs-add <red|yellow|green> <text>. Example: /obs-add red never touch migrations/",
+					"warning",
+				);
+				return;
+			}
+
+			const now = new Date();
+			const [date, time] = (formatEntryTime(now.getTime()) ?? "unknown 00:00").split(" ");
+			const records = readCurrentObservationRecords(ctx.sessionManager.getBranch());
+			const edit: MemoryEdit = {
+				op: "add",
+				id: observationRecordId(key, new Set(records.map((record) => record.id))),
+				priority,
+				body,
+				date,
+				time,
+				at: now.toISOString(),
+			};
+			queueMemoryEdit(ctx, edit, [`Queued add ${edit.id}:`, formatObservationLine(edit)]);
+		},
+	});
+
+	pi.registerCommand(OBS_EDIT_COMMAND, {
+		description: "Rewrite an observation at the next compaction (/obs-edit <id> [priority] [new text])",
+		handler: async (args, ctx) => {
+			const [query = "", ...rest] = args.trim().split(/\s+/);
+			if (!query) {
+				ctx.ui.notify("Usage: /obs-edit <id> [red|yellow|green] [new text]", "warning");
+				return;
+			}
+
+			const branchEntries = ctx.sessionManager.getBranch();
+			const record = await pickObservation(
+				ctx,
+				readCurrentObservationRecords(branchEntries),
+				query,
+				"Edit which observation?",
+			);
+			if (!record) return;
+
+			let input = rest.join(" ");
+			if (!input.trim()) {
+				if (!ctx.hasUI) {
+					ctx.ui.notify(`Pass the new text: /obs-edit ${record.id} [priority] <new text>`, "warning");
+					return;
+				}
+				const edited = await ctx.ui.editor(
+					`Edit ${record.id} (optional priority first)`,
+					`${priorityEmoji(record.priority)} ${record.body}`,
+				);
+				if (edited === undefined) return;
+				input = edited;
+			}
+
+			const { priority = record.priority, body } = parseObservationInput(input, record.priority);
+			if (!normalizeObservationKey(body)) {
+				ctx.ui.notify(`Empty text; use /${OBS_FORGET_COMMAND} ${record.id} to remove an observation.`, "warning");
+				return;
+			}
+			if (priority === record.priority && body === record.body) {
+				ctx.ui.notify(`No change to ${record.id}.`, "info");
+				return;
+			}
+
+			const at = new Date().toISOString();
+			const pins = readPinnedObservations(branchEntries);
+			if (pins.some((pin) => pin.id === record.id)) {
+				pi.appendEntry(PINS_ENTRY_TYPE, {
+					pins: pins.map((pin) => (pin.id === record.id ? { ...pin, priority, body } : pin)),
+				});
+			}
+
+			queueMemoryEdit(
+				ctx,
+				{ op: "edit", id: record.id, key: normalizeObservationKey(record.body), priority, body, at },
+				[
+					`Queued edit ${record.id}:`,
+					`- before: ${formatObservationLine({ ...record, sources: undefined }).slice(2)}`,
+					`- after:  ${formatObservationLine({ priority, body, time: record.time }).slice(2)}`,
+				],
+			);
+		},
+	});
+
+	pi.registerCommand(OBS_FORGET_COMMAND, {
+		description: "Remove observations at the next compaction (/obs-forget <id|text|/regex/>)",
+		handler: async (args, ctx) => {
+			const target = args.trim();
+			if (!target) {
+				ctx.ui.notify("Usage: /obs-forget <id|text|/regex/>", "warning");
+				return;
+			}
+
+			const branchEntries = ctx.sessionManager.getBranch();
+			const records = readCurrentObservationRecords(branchEntries);
+			const byId = records.find((record) => record.id === target);
+			const matcher = byId ? undefined : compileForgetPattern(target);
+			if (!byId && !matcher) {
+				ctx.ui.notify(`Invalid pattern "${target}".`, "warning");
+				return;
+			}
+
+			const matches = byId ? [byId] : records.filter((record) => matcher?.(record.body));
+			if (matches.length === 0) {
+				ctx.ui.notify(`No observation matches "${target}"; nothing queued.`, "warning");
+				return;
+			}
+			const lines = matches.map(
+				(record) => `${formatObservationLine({ ...record, sources: undefined })} (${record.id})`,
+			);
+			if (matches.length > 1 && ctx.hasUI) {
+				const confirmed = await ctx.ui.confirm(`Forget ${matches.length} observations?`, lines.join("\n"));
+				if (!confirmed) return;
+			}
+
+			const at = new Date().toISOString();
+			const pins = readPinnedObservations(branchEntries);
+			const forgottenIds = new Set(matches.map((record) => record.id));
+			const remainingPins = pins.filter((pin) => !forgottenIds.has(pin.id));
+			if (remainingPins.length !== pins.length) {
+				pi.appendEntry(PINS_ENTRY_TYPE, { pins: remainingPins });
+			}
+
+			queueMemoryEdit(
+				ctx,
+				byId
+					? { op: "forget", id: byId.id, key: normalizeObservationKey(byId.body), at }
+					: { op: "forget", pattern: target, at },
+				[
+					`Queued forget of ${matches.length} observation${matches.length === 1 ? "" : "s"}:`,
+					...lines,
+					...(remainingPins.length !== pins.length ? ["Matching pins were released."] : []),
+				],
+			);
+		},
+	});
+
+	pi.registerTool({
+		name: OBS_SEARCH_TOOL,
+		label: "Observational memory search",
+		description:
+			"Search observational memory: every compaction and branch summary on the current branch (or the whole session tree), " +
+			"including observations pruned from the active summary, open threads, next actions, read/modified file tags and compaction details. " +
+			"Returns ranked hits with priority (🔴 critical, 🟡 important, 🟢 informational) and the compaction or branch summary id they came from.",
+		parameters: Type.Object({
+			query: Type.String({ description: "Words to look for, e.g. a file path, identifier, error or topic" }),
+			scope: Type.Optional(
+				StringEnum(["branch", "tree"] as const, {
+					description: "branch (default): entries on the current branch; tree: every branch of this session",
+				}),
+			),
+			limit: Type.Optional(
+				Type.Number({
+					description: `Maximum hits to return (default ${SEARCH_DEFAULT_LIMIT}, max ${SEARCH_MAX_LIMIT})`,
+				}),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const scope = params.scope ?? "branch";
+			const limit = Math.max(1, Math.min(SEARCH_MAX_LIMIT, Math.floor(params.limit ?? SEARCH_DEFAULT_LIMIT)));
+			const branchEntries = ctx.sessionManager.getBranch();
+			const activeEntryId = [...branchEntries].reverse().find((entry) => entry.type === "compaction")?.id;
+			const entries = scope === "tree" ? ctx.sessionManager.getEntries() : branchEntries;
+			const { hits, total, searched } = searchMemory(entries, params.query, { activeEntryId, limit });
+
+			const header = `${OBS_SEARCH_TOOL} "${params.query}": ${total} hit${total === 1 ? "" : "s"} in ${searched.compactions} compactions and ${searched.branchSummaries} branch summaries (${scope})`;
+			const text =
+				hits.length > 0
+					? [
+							header,
+							...hits.map(formatMemorySearchHit),
+							...(total > hits.length ? [`… ${total - hits.length} more`] : []),
+						]
+					: [header, "No matches. Try fewer or different words, or scope: tree."];
+
+			return {
+				content: [{ type: "text", text: text.join("\n") }],
+				details: { query: params.query, scope, total, searched, hits },
+			};
+		},
+	});
+
+	pi.registerCommand(OBS_PROJECT_COMMAND, {
+		description:
+			"Inspect or prune the cross-session project memory (/obs-project [show|prune <id|text|/regex/>|gc|clear])",
+		handler: async (args, ctx) => {
+			const [subcommand = "show", ...rest] = args
+				.trim()
+				.split(/\s+/)
+				.filter((part) => part.length > 0);
+			const target = rest.join(" ");
+			const path = getProjectMemoryPath(ctx.cwd);
+			const { store, error } = readProjectMemory(path);
+			if (error) {
+				ctx.ui.notify(`Unable to read project memory: ${error}`, "error");
+				return;
+			}
+			const counter = resolveTokenCounter(ctx.model);
+			const save = (observations: ProjectMemoryObservation[]): boolean => {
+				try {
+					writeProjectMemory(path, observations);
+					return true;
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error);
+					ctx.ui.notify(`Unable to write project memory at ${path}: ${message}`, "error");
+					return false;
+				}
+			};
+
+			switch (subcommand.toLowerCase()) {
+				case "show":
+				case "list": {
+					const tokens = store.observations.reduce(
+						(sum, item) => sum + estimateTextTokens(formatObservationLine(item), counter),
+						0,
+					);
+					ctx.ui.notify(
+						[
+							"Observational project memory",
+							`file: ${path}`,
+							withSource("projectMemory", `collect + inject: ${projectMemoryEnabled ? "on" : "off"}`),
+							withSource("projectMemoryBudget", `budget: ${formatTokenCount(projectMemoryBudget)}`),
+							`size: ${store.observations.length} observations, ${formatTokenCount(tokens)} ${formatTokenMargin(counter)}`,
+							`updated: ${store.observations.length > 0 ? store.updatedAt : "never"}`,
+							"",
+							...(store.observations.length > 0
+								? store.observations.map(
+										(item) =>
+											`${formatObservationLine(item)} (${item.id}, seen ${item.seenCount}×, last ${item.lastSeenAt.slice(0, 10)})`,
+									)
+								: ["(empty)"]),
+							"",
+							`usage: /${OBS_PROJECT_COMMAND} [show] | prune <id|text|/regex/> | gc | clear`,
+						].join("\n"),
+						"info",
+					);
+					return;
+				}
+
+				case "prune":
+				case "forget": {
+					if (!target) {
+						ctx.ui.notify(`Usage: /${OBS_PROJECT_COMMAND} prune <id|text|/regex/>`, "warning");
+						return;
+					}
+					const byId = store.observations.find((item) => item.id === target);
+					const matcher = byId ? undefined : compileForgetPattern(target);
+					if (!byId && !matcher) {
+						ctx.ui.notify(`Invalid pattern "${target}".`, "warning");
+						return;
+					}
+					const matches = byId ? [byId] : store.observations.filter((item) => matcher?.(item.body));
+					if (matches.length === 0) {
+						ctx.ui.notify(`No project observation matches "${target}".`, "warning");
+						return;
+					}
+					const lines = matches.map((item) => `${formatObservationLine(item)} (${item.id})`);
+					if (matches.length > 1 && ctx.hasUI) {
+						const confirmed = await ctx.ui.confirm(`Prune ${matches.length} project observations?`, lines.join("\n"));
+						if (!confirmed) return;
+					}
+					if (!save(store.observations.filter((item) => !matches.includes(item)))) return;
+					ctx.ui.notify([`Pruned ${matches.length} from project memory:`, ...lines].join("\n"), "info");
+					return;
+				}
+
+				case "gc": {
+					const collected = collectProjectMemory(
+						store.observations,
+						projectMemoryBudget,
+						counter,
+						dedupeSimilarityThreshold,
+					);
+					if (!save(collected.observations)) return;
+					ctx.ui.notify(
+						`Project memory GC: kept ${collected.observations.length}, merged ${collected.merged} near-duplicates, dropped ${collected.dropped} over the ${formatTokenCount(projectMemoryBudget)} budget.`,
+						"info",
+					);
+					return;
+				}
+
+				case "clear": {
+					if (store.observations.length === 0) {
+						ctx.ui.notify("Project memory is already empty.", "info");
+						return;
+					}
+					if (ctx.hasUI) {
+						const confirmed = await ctx.ui.confirm(
+							"Clear project memory?",
+							`Removes all ${store.observations.length} observations from ${path}.`,
+						);
+						if (!confirmed) return;
+					}
+					if (!save([])) return;
+					ctx.ui.notify(`Cleared project memory (${store.observations.length} observations).`, "info");
+					return;
+				}
+
+				default:
+					ctx.ui.notify(
+						`Unknown subcommand "${subcommand}". Use /${OBS_PROJECT_COMMAND} [show] | prune <id|text|/regex/> | gc | clear`,
+						"warning",
+					);
+			}
+		},
+	});
+
+	pi.registerCommand(OBS_PIN_COMMAND, {
+		description: "Pin an observation so reflection never drops it (/obs-pin <id|text>)",
+		handler: async (args, ctx) => {
+			await pinObservation(ctx, args);
+		},
+	});
+
+	pi.registerCommand(OBS_UNPIN_COMMAND, {
+		description: "Release a pinned observation (/obs-unpin <id|text>)",
+		handler: async (args, ctx) => {
+			await unpinObservation(ctx, args);
+		},
+	});
+
+	pi.registerCommand(OBS_DUMP_COMMAND, {
+		description: "Export latest observational memory as Markdown and/or versioned JSON",
+		handler: async (args, ctx) => {
+			const branchEntries = ctx.sessionManager.getBranch();
+			const lastCompaction = [...branchEntries].reverse().find((entry) => entry.type === "compaction");
+			if (!lastCompaction) {
+				ctx.ui.notify("No compaction found in current branch.", "warning");
+				return;
+			}
+
+			let formats: DumpFormat[] = ["markdown", "json"];
+			let outputDir = DEFAULT_DUMP_DIR;
+			for (const token of args
+				.trim()
+				.split(/\s+/)
+				.filter((part) => part.length > 0)) {
+				const parsedFormat = parseDumpFormat(token);
+				if (parsedFormat) {
+					formats = parsedFormat;
+					continue;
+				}
+				outputDir = token;
+			}
+
+			const sessionId = ctx.sessionManager.getSessionId();
+			const dump = buildMemoryDump(lastCompaction, sessionId);
+			const targetDir = resolve(ctx.cwd, outputDir);
+			const baseName = `obs-dump-${sessionId}-${lastCompaction.id}`;
+
+			const written: string[] = [];
+			try {
+				mkdirSync(targetDir, { recursive: true });
+				for (const format of formats) {
+					const filePath = join(targetDir, `${baseName}.${format === "json" ? "json" : "md"}`);
+					const content = format === "json" ? `${JSON.stringify(dump, null, 2)}\n` : renderMemoryDumpMarkdown(dump);
+					writeFileSync(filePath, content, "utf-8");
+					written.push(filePath);
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Unable to write observational memory dump: ${message}`, "error");
+				return;
+			}
+
+			ctx.ui.notify(
+				[
+					`Observational memory dumped (${dump.observations.length} observations, compaction ${lastCompaction.id}):`,
+					...written.map((filePath) => `- ${filePath}`),
+				].join("\n"),
+				"info",
+			);
+		},
+	});
+
+	pi.registerCommand(OBS_REBUILD_COMMAND, {
+		description: "Discard the observation chain and rebuild observations from full branch history",
+		handler: async (args, ctx) => {
+			if (ctx.hasUI) {
+				const confirmed = await ctx.ui.confirm(
+					"Rebuild observational memory?",
+					"Previous observations are discarded and every raw entry on this branch is re-observed in chunks. This can take several model calls.",
+				);
+				if (!confirmed) return;
+			}
+
+			rebuildNextCompaction = true;
+			const extra = args.trim();
+
+			if (ctx.hasUI) {
+				ctx.ui.notify("Rebuilding observational memory from branch history...", "info");
+			}
+
+			ctx.compact({
+				customInstructions: extra.length > 0 ? `Extra focus: ${extra}` : undefined,
+				onComplete: (result) => {
+					rebuildNextCompaction = false;
+					if (ctx.hasUI) {
+						ctx.ui.notify(
+							`Observational memory rebuild complete (${result.tokensBefore.toLocaleString()} tokens before).`,
+							"info",
+						);
+					}
+				},
+				onError: (error) => {
+					rebuildNextCompaction = false;
+					if (ctx.hasUI && !shouldIgnoreAutoCompactError(error.message)) {
+						ctx.ui.notify(`Observational memory rebuild failed: ${error.message}`, "error");
+					}
+				},
+			});
+		},
+	});
 }
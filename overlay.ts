@@ -1,5 +1,6 @@
 import { Key, matchesKey } from "@mariozechner/pi-tui";
 
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matches ANSI SGR escape sequences
 const ANSI_RE = /\x1b\[[0-9;]*m/g;
 
 function color(code: string, text: string): string {
@@ -101,10 +102,105 @@ function meter(current: number, total: number, width = 26): string {
 	return `${color("2", "[")}${color(colorCode, "█".repeat(filled))}${color("2", "░".repeat(width - filled))}${color("2", "]")} ${color(colorCode, `${Math.round(ratio * 100)}%`)}`;
 }
 
-type Tab = "status" | "observations";
+function formatCompactTokens(tokens: number): string {
+	return tokens >= 1_000 ? `${Math.round(tokens / 100) / 10}k` : String(tokens);
+}
+
+/** Summarizer usage added up over every call of a compaction or branch summary, retries included. */
+export interface ObservationMemoryUsage {
+	calls: number;
+	/** Uncached input tokens. */
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	/** Estimated from returned thinking text; already part of `output`. */
+	reasoning: number;
+	/** Provider cost estimate in USD (0 when the model has no pricing). */
+	cost: number;
+}
+
+/** `2 calls · in 12.3k (+4k cached) · out 1.2k (~300 reasoning) · $0.0123` */
+export function formatUsage(usage: ObservationMemoryUsage): string {
+	const cached = usage.cacheRead + usage.cacheWrite;
+	return [
+		`${usage.calls} ${usage.calls === 1 ? "call" : "calls"}`,
+		`in ${formatCompactTokens(usage.input)}${cached > 0 ? ` (+${formatCompactTokens(cached)} cached)` : ""}`,
+		`out ${formatCompactTokens(usage.output)}${usage.reasoning > 0 ? ` (~${formatCompactTokens(usage.reasoning)} reasoning)` : ""}`,
+		`$${usage.cost.toFixed(4)}`,
+	].join(" · ");
+}
+
+/** Values shown by the footer status widget. */
+export interface ObservationMemoryStatusWidget {
+	rawTailTokens: number;
+	/** Observer threshold plus the raw-tail retain buffer. */
+	activationThreshold: number;
+	observationTokens: number;
+	reflectorTriggerTokens: number;
+	mode: string;
+	autoObserverEnabled: boolean;
+	autoCompactInFlight: boolean;
+	summarizingStage?: string;
+}
+
+/** Single-line memory pressure summary for the footer, using the overlay's meters at a compact width. */
+export function formatStatusWidget(status: ObservationMemoryStatusWidget): string {
+	const activity = status.summarizingStage
+		? color("33", `⟳ ${status.summarizingStage}`)
+		: status.autoCompactInFlight
+			? color("33", "⟳ compacting")
+			: undefined;
+	return [
+		"🧠",
+		`tail ${meter(status.rawTailTokens, status.activationThreshold, 8)} ${dim(`${formatCompactTokens(status.rawTailTokens)}/${formatCompactTokens(status.activationThreshold)}`)}`,
+		`obs ${meter(status.observationTokens, status.reflectorTriggerTokens, 8)} ${dim(`${formatCompactTokens(status.observationTokens)}/${formatCompactTokens(status.reflectorTriggerTokens)}`)}`,
+		dim(status.autoObserverEnabled ? status.mode : `${status.mode}, trigger off`),
+		...(activity ? [activity] : []),
+	].join(" ");
+}
+
+type Tab = "status" | "observations" | "history" | "diff" | "settings";
+
+const TABS: Array<[Tab, string]> = [
+	["status", "Status"],
+	["observations", "Observations"],
+	["history", "History"],
+	["diff", "Diff"],
+	["settings", "Settings"],
+];
+
+const DIFF_SECTIONS: Array<[string, string]> = [
+	["observations", "Observations"],
+	["open-threads", "Open threads"],
+	["read-files", "Read files"],
+	["modified-files", "Modified files"],
+];
+
+/** Follow-up the overlay asks the extension to run after it closes. */
+export type ObservationMemoryOverlayAction = "trace" | "pin";
 
 type Severity = "normal" | "heading" | "red" | "yellow" | "green" | "muted";
 
+type Priority = "red" | "yellow" | "green";
+
+const SPINNER_FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+const SPINNER_FRAME_MS = 100;
+
+const PRIORITY_TOGGLE_KEYS: Record<string, Priority> = { r: "red", y: "yellow", i: "green" };
+
+const PRIORITY_BULLETS: Array<[Priority, string]> = [
+	["red", "- 🔴"],
+	["yellow", "- 🟡"],
+	["green", "- 🟢"],
+];
+
+/** Text being typed: `/` search or `f` file filter in the Observations tab, or a value in the Settings tab. */
+interface PromptState {
+	kind: "search" | "file" | "setting";
+	text: string;
+}
+
 interface StyledLine {
 	text: string;
 	severity?: Severity;
@@ -113,13 +209,25 @@ interface StyledLine {
 interface CompactionOverlayDetails {
 	strategy?: string;
 	model?: string;
+	modelRole?: string;
 	observationCount?: number;
 	reflectorRan?: boolean;
 	reflectionMode?: string;
 	observationsDropped?: number;
+	observationsDroppedByLlm?: number;
+	observationsDroppedByHeuristic?: number;
+	observationsMergedAsNearDuplicates?: number;
+	reflectorModel?: string;
+	llmReflectorError?: string;
+	memoryEditsApplied?: number;
+	pinnedCount?: number;
+	pinsReinjected?: number;
 	isSplitTurn?: boolean;
 	usedPreviousSummary?: boolean;
 	generatedAt?: string;
+	usage?: ObservationMemoryUsage;
+	formatWarnings?: string[];
+	formatRepair?: string;
 }
 
 interface BranchOverlayDetails {
@@ -128,16 +236,92 @@ interface BranchOverlayDetails {
 	observationCount?: number;
 	entryCount?: number;
 	generatedAt?: string;
+	usage?: ObservationMemoryUsage;
+	formatWarnings?: string[];
+	formatRepair?: string;
+}
+
+/** A yellow line when a summarizer output broke the format, followed by its first warnings. */
+function formatWarningLines(details: CompactionOverlayDetails | BranchOverlayDetails): StyledLine[] {
+	if (!details.formatWarnings?.length) return [];
+	const shown = details.formatWarnings.slice(0, 3);
+	return [
+		{
+			text: `format: ${details.formatRepair ? `${details.formatRepair} repair` : "not repaired"} (${details.formatWarnings.length} warnings)`,
+			severity: "yellow",
+		},
+		...shown.map((warning) => ({ text: `  ${warning}`, severity: "muted" as const })),
+	];
+}
+
+/** One row of the Settings tab. */
+export interface ObservationMemoryOverlaySetting {
+	key: string;
+	label: string;
+	/** Current value in a form the setting's parser accepts. */
+	value: string;
+	/** Layer the value was resolved from (default, global, project, flag, runtime). */
+	source: string;
+	/** Values cycled with ←/→ or enter; other settings are typed in. */
+	choices?: string[];
+	hint?: string;
+}
+
+/** Lets the Settings tab change extension settings while the overlay is open. */
+export interface ObservationMemoryOverlaySettingsHandler {
+	/** Apply a value to the session; returns an error message when it does not parse. */
+	apply(key: string, value: string): string | undefined;
+	/** Write the settings changed in this session to a config file; returns a status line and its level. */
+	save(scope: "project" | "global"): { text: string; level: "info" | "warning" | "error" };
+}
+
+/** Compaction or branch summary entry on the current branch, as listed in the History tab. */
+export interface ObservationMemoryOverlayHistoryEntry {
+	id: string;
+	type: "compaction" | "branch_summary";
+	timestamp: number | string;
+	tokensBefore?: number;
+	observationCount: number;
+	reflectionMode?: string;
+	model?: string;
+	/** Summary without file tags, shown in the Observations tab when the entry is opened. */
+	summary: string;
+}
+
+/** Changes between two consecutive compactions; line text is pre-formatted (`+`, `-`, `~` prefixes). */
+export interface ObservationMemoryOverlayDiff {
+	from: { id: string; timestamp: number | string; observations: number };
+	to: { id: string; timestamp: number | string; observations: number };
+	counts: string;
+	lines: Array<{ section: string; change: "added" | "removed" | "edited" | "priority"; text: string }>;
 }
 
 export interface ObservationMemoryOverlaySnapshot {
 	autoObserverEnabled: boolean;
+	mode: string;
+	/** Layer each setting was resolved from (default, global, project, flag, runtime). */
+	settingSources: Record<string, string>;
+	observerModels: string[];
+	reflectorModels: string[];
 	observerTriggerTokens: number;
 	rawTailTokens: number;
 	reflectorTriggerTokens: number;
 	observationTokens: number;
+	/** Token counter used for the estimates above and its relative error bound. */
+	tokenCounter: string;
+	tokenMargin: number;
 	autoCompactInFlight: boolean;
+	/** Summarizer call in progress; the title shows a spinner and the elapsed time. */
+	summarizing?: { stage: string; startedAt: number };
 	forceReflectPending: boolean;
+	rebuildPending: boolean;
+	/** Manual edits (`/obs-add`, `/obs-edit`, `/obs-forget`) waiting for the next compaction. */
+	pendingEdits: number;
+	projectMemory: { enabled: boolean; budget: number; observations: number };
+	/** Summarizer usage of every compaction and branch summary on the branch that recorded it. */
+	branchUsage?: ObservationMemoryUsage;
+	/** Latest observer/tree run that failed on every model (pi's default summary was used instead). */
+	lastFailure?: { kind: string; at: string; error: string; attempts: unknown[] };
 	lastCompaction?: {
 		id: string;
 		timestamp: number | string;
@@ -151,6 +335,14 @@ export interface ObservationMemoryOverlaySnapshot {
 		details?: BranchOverlayDetails;
 	};
 	observations?: string;
+	/** `## Pinned` section listing pinned observations, when there are any. */
+	pinned?: string;
+	/** Compaction and branch summary entries on the branch, oldest first. */
+	history: ObservationMemoryOverlayHistoryEntry[];
+	/** Diffs between consecutive compactions on the branch, oldest first. */
+	diffs: ObservationMemoryOverlayDiff[];
+	/** Settings editable in the Settings tab. */
+	settings: ObservationMemoryOverlaySetting[];
 }
 
 function styleLine(line: StyledLine): string {
@@ -170,20 +362,64 @@ function styleLine(line: StyledLine): string {
 	}
 }
 
+function withSource(snapshot: ObservationMemoryOverlaySnapshot, key: string, text: string): string {
+	const source = snapshot.settingSources[key];
+	return source ? `${text} (${source})` : text;
+}
+
 function buildStatusLines(snapshot: ObservationMemoryOverlaySnapshot): StyledLine[] {
 	const lines: StyledLine[] = [
 		{ text: "Observer/Reflector" },
-		{ text: `Observer trigger: ${snapshot.autoObserverEnabled ? "on" : "off"}` },
-		{ text: `Observer threshold: ${formatTokenCount(snapshot.observerTriggerTokens)}` },
-		{ text: `Raw tail now: ${formatTokenCount(snapshot.rawTailTokens)}` },
+		{ text: withSource(snapshot, "autoCompact", `Observer trigger: ${snapshot.autoObserverEnabled ? "on" : "off"}`) },
+		{ text: withSource(snapshot, "mode", `Observer mode: ${snapshot.mode}`) },
+		{ text: withSource(snapshot, "observerModels", `Observer models: ${snapshot.observerModels.join(" → ")}`) },
+		{ text: withSource(snapshot, "reflectorModels", `Reflector models: ${snapshot.reflectorModels.join(" → ")}`) },
+		{
+			text: withSource(
+				snapshot,
+				"observerThreshold",
+				`Observer threshold: ${formatTokenCount(snapshot.observerTriggerTokens)}`,
+			),
+		},
+		{
+			text: `Token counting: ${snapshot.tokenCounter} (±${Math.round(snapshot.tokenMargin * 100)}%)`,
+			severity: "muted",
+		},
+		{ text: `Raw tail now: ${formatTokenCount(snapshot.rawTailTokens)} ±${Math.round(snapshot.tokenMargin * 100)}%` },
 		{ text: meter(snapshot.rawTailTokens, snapshot.observerTriggerTokens), severity: "normal" },
 		{ text: "" },
-		{ text: `Reflector threshold: ${formatTokenCount(snapshot.reflectorTriggerTokens)}` },
-		{ text: `Observation block: ${formatTokenCount(snapshot.observationTokens)}` },
+		{
+			text: withSource(
+				snapshot,
+				"reflectorThreshold",
+				`Reflector threshold: ${formatTokenCount(snapshot.reflectorTriggerTokens)}`,
+			),
+		},
+		{
+			text: `Observation block: ${formatTokenCount(snapshot.observationTokens)} ±${Math.round(snapshot.tokenMargin * 100)}%`,
+		},
 		{ text: meter(snapshot.observationTokens, snapshot.reflectorTriggerTokens), severity: "normal" },
 		{ text: "" },
 		{ text: `Auto-compact in flight: ${snapshot.autoCompactInFlight ? "yes" : "no"}` },
 		{ text: `Force-reflect pending: ${snapshot.forceReflectPending ? "yes" : "no"}` },
+		{ text: `Rebuild pending: ${snapshot.rebuildPending ? "yes" : "no"}` },
+		{ text: `Pending memory edits: ${snapshot.pendingEdits}` },
+		{
+			text: withSource(
+				snapshot,
+				"projectMemory",
+				`Project memory: ${snapshot.projectMemory.enabled ? "on" : "off"}, ${snapshot.projectMemory.observations} observations, budget ${formatTokenCount(snapshot.projectMemory.budget)}`,
+			),
+		},
+		...(snapshot.branchUsage ? [{ text: `Summarizer usage (branch): ${formatUsage(snapshot.branchUsage)}` }] : []),
+		...(snapshot.lastFailure
+			? [
+					{
+						text: `Last failed run: ${snapshot.lastFailure.kind} at ${new Date(snapshot.lastFailure.at).toLocaleString()} (${snapshot.lastFailure.attempts.length} attempts): ${snapshot.lastFailure.error}`,
+						severity: "yellow" as const,
+					},
+				]
+			: []),
 		{ text: "" },
 	];
 
@@ -200,15 +436,51 @@ function buildStatusLines(snapshot: ObservationMemoryOverlaySnapshot): StyledLin
 			const details = snapshot.lastCompaction.details;
 			lines.push(
 				{ text: `strategy: ${details.strategy ?? "unknown"}`, severity: "muted" },
-				{ text: `model: ${details.model ?? "unknown"}`, severity: "muted" },
+				{
+					text: `model: ${details.model ?? "unknown"}${details.modelRole ? ` (${details.modelRole})` : ""}`,
+					severity: "muted",
+				},
 				{ text: `observations: ${details.observationCount ?? 0}`, severity: "muted" },
 				{
 					text: `reflector: ${details.reflectorRan ? "yes" : "no"}${details.reflectionMode ? ` (${details.reflectionMode})` : ""}`,
 					severity: "muted",
 				},
-				{ text: `dropped: ${details.observationsDropped ?? 0}`, severity: "muted" },
+				{
+					text:
+						details.observationsDroppedByLlm === undefined && details.observationsDroppedByHeuristic === undefined
+							? `dropped: ${details.observationsDropped ?? 0}`
+							: `dropped: ${details.observationsDropped ?? 0} (llm ${details.observationsDroppedByLlm ?? 0}, heuristic ${details.observationsDroppedByHeuristic ?? 0})`,
+					severity: "muted",
+				},
+				...(details.observationsMergedAsNearDuplicates
+					? [
+							{
+								text: `near-duplicates merged: ${details.observationsMergedAsNearDuplicates}`,
+								severity: "muted" as const,
+							},
+						]
+					: []),
+				...(details.reflectorModel
+					? [{ text: `reflector model: ${details.reflectorModel}`, severity: "muted" as const }]
+					: []),
+				...(details.llmReflectorError
+					? [{ text: `llm reflector skipped: ${details.llmReflectorError}`, severity: "yellow" as const }]
+					: []),
+				...(details.memoryEditsApplied
+					? [{ text: `memory edits applied: ${details.memoryEditsApplied}`, severity: "muted" as const }]
+					: []),
+				...(details.pinnedCount
+					? [
+							{
+								text: `pinned: ${details.pinnedCount} (reinjected ${details.pinsReinjected ?? 0})`,
+								severity: "muted" as const,
+							},
+						]
+					: []),
 				{ text: `splitTurn: ${details.isSplitTurn ? "yes" : "no"}`, severity: "muted" },
 				{ text: `usedPreviousSummary: ${details.usedPreviousSummary ? "yes" : "no"}`, severity: "muted" },
+				...(details.usage ? [{ text: `usage: ${formatUsage(details.usage)}`, severity: "muted" as const }] : []),
+				...formatWarningLines(details),
 			);
 			if (details.generatedAt) {
 				lines.push({ text: `generatedAt: ${details.generatedAt}`, severity: "muted" });
@@ -233,6 +505,8 @@ function buildStatusLines(snapshot: ObservationMemoryOverlaySnapshot): StyledLin
 				{ text: `model: ${details.model ?? "unknown"}`, severity: "muted" },
 				{ text: `observations: ${details.observationCount ?? 0}`, severity: "muted" },
 				{ text: `entryCount: ${details.entryCount ?? 0}`, severity: "muted" },
+				...(details.usage ? [{ text: `usage: ${formatUsage(details.usage)}`, severity: "muted" as const }] : []),
+				...formatWarningLines(details),
 			);
 			if (details.generatedAt) {
 				lines.push({ text: `generatedAt: ${details.generatedAt}`, severity: "muted" });
@@ -243,12 +517,13 @@ function buildStatusLines(snapshot: ObservationMemoryOverlaySnapshot): StyledLin
 	return lines;
 }
 
-function buildObservationLines(summary: string | undefined): StyledLine[] {
+function buildObservationLines(summary: string | undefined, pinned: string | undefined): StyledLine[] {
 	if (!summary || summary.trim().length === 0) {
 		return [{ text: "No observations in the latest compaction yet.", severity: "yellow" }];
 	}
 
-	return summary.split("\n").map((line) => {
+	const text = pinned ? `${pinned}\n\n${summary}` : summary;
+	return text.split("\n").map((line) => {
 		if (line.startsWith("## ")) return { text: line, severity: "heading" as const };
 		if (line.startsWith("Date:")) return { text: line, severity: "muted" as const };
 		if (line.startsWith("- 🔴")) return { text: line, severity: "red" as const };
@@ -260,12 +535,124 @@ function buildObservationLines(summary: string | undefined): StyledLine[] {
 	});
 }
 
-function wrapStyledLines(lines: StyledLine[], width: number): string[] {
+function buildSettingsLines(
+	settings: ObservationMemoryOverlaySetting[],
+	selected: number,
+	message: StyledLine | undefined,
+	editable: boolean,
+): StyledLine[] {
+	const labelWidth = Math.max(...settings.map((setting) => setting.label.length), 0);
+	const lines: StyledLine[] = settings.map((setting, index) => ({
+		text: `${index === selected ? "▸" : " "} ${setting.label.padEnd(labelWidth)}  ${setting.choices ? `‹ ${setting.value} ›` : setting.value}  (${setting.source})`,
+		severity: index === selected ? "heading" : "normal",
+	}));
+
+	const current = settings[selected];
+	if (current?.hint) lines.push({ text: "" }, { text: current.hint, severity: "muted" });
+	if (message) lines.push({ text: "" }, message);
+	lines.push(
+		{ text: "" },
+		{
+			text: editable
+				? "Changes apply to this session right away; s saves the ones made this session to the project config, S to the global config."
+				: "Settings are read-only here; use /obs-auto-compact.",
+			severity: "muted",
+		},
+	);
+	return lines;
+}
+
+function buildHistoryLines(history: ObservationMemoryOverlayHistoryEntry[], selected: number): StyledLine[] {
+	if (history.length === 0) {
+		return [{ text: "No compaction or branch summary entries in current branch.", severity: "yellow" }];
+	}
+
+	return history.map((entry, index) => {
+		const fields = [
+			`#${index + 1}`,
+			entry.type === "compaction" ? "compaction" : "branch summary",
+			new Date(entry.timestamp).toLocaleString(),
+			...(entry.tokensBefore !== undefined ? [formatTokenCount(entry.tokensBefore)] : []),
+			`${entry.observationCount} obs`,
+			...(entry.reflectionMode ? [`reflect ${entry.reflectionMode}`] : []),
+			entry.model ?? "default model",
+		];
+		const text = `${index === selected ? "▸" : " "} ${fields.join("  ")}`;
+		return { text, severity: index === selected ? "heading" : entry.type === "compaction" ? "normal" : "muted" };
+	});
+}
+
+function buildDiffLines(diffs: ObservationMemoryOverlayDiff[], index: number): StyledLine[] {
+	const diff = diffs[index];
+	if (!diff) {
+		return [{ text: "Need at least two compactions on the current branch to diff.", severity: "yellow" }];
+	}
+
+	const lines: StyledLine[] = [
+		{ text: `Compaction ${index + 1} → ${index + 2} of ${diffs.length + 1} (${diff.counts})`, severity: "heading" },
+		{
+			text: `from: ${diff.from.id} (${new Date(diff.from.timestamp).toLocaleString()}, ${diff.from.observations} observations)`,
+			severity: "muted",
+		},
+		{
+			text: `to:   ${diff.to.id} (${new Date(diff.to.timestamp).toLocaleString()}, ${diff.to.observations} observations)`,
+			severity: "muted",
+		},
+	];
+	if (diff.lines.length === 0) {
+		lines.push({ text: "" }, { text: "No differences." });
+	}
+
+	for (const [section, title] of DIFF_SECTIONS) {
+		const changes = diff.lines.filter((line) => line.section === section);
+		if (changes.length === 0) continue;
+		lines.push({ text: "" }, { text: `## ${title}`, severity: "heading" });
+		for (const change of changes) {
+			const severity = change.change === "added" ? "green" : change.change === "removed" ? "red" : "yellow";
+			lines.push({ text: change.text, severity });
+		}
+	}
+	return lines;
+}
+
+function observationPriority(line: string): Priority | undefined {
+	return PRIORITY_BULLETS.find(([, bullet]) => line.startsWith(bullet))?.[0];
+}
+
+/** Hide observation bullets by priority or by a file path they must mention; day headers left empty go too. */
+function filterObservationLines(lines: StyledLine[], hidden: ReadonlySet<Priority>, file: string): StyledLine[] {
+	if (hidden.size === 0 && !file) return lines;
+
+	const needle = file.toLowerCase();
+	const kept = lines.filter((line) => {
+		const priority = observationPriority(line.text);
+		if (!priority) return true;
+		return !hidden.has(priority) && (!needle || line.text.toLowerCase().includes(needle));
+	});
+	return kept.filter(
+		(line, index) => !line.text.startsWith("Date:") || observationPriority(kept[index + 1]?.text ?? "") !== undefined,
+	);
+}
+
+function highlightMatches(text: string, query: string): string {
+	if (!query) return text;
+	const lower = text.toLowerCase();
+	const needle = query.toLowerCase();
+	let out = "";
+	let from = 0;
+	for (let at = lower.indexOf(needle); at >= 0; at = lower.indexOf(needle, from)) {
+		out += `${text.slice(from, at)}\x1b[7m${text.slice(at, at + needle.length)}\x1b[27m`;
+		from = at + needle.length;
+	}
+	return out + text.slice(from);
+}
+
+function wrapStyledLines(lines: StyledLine[], width: number, highlight = ""): string[] {
 	const wrapped: string[] = [];
 	for (const line of lines) {
 		const parts = wrapPlain(line.text, width);
 		for (const part of parts) {
-			wrapped.push(styleLine({ text: part, severity: line.severity }));
+			wrapped.push(styleLine({ text: highlightMatches(part, highlight), severity: line.severity }));
 		}
 	}
 	return wrapped;
@@ -279,20 +666,135 @@ export class ObservationMemoryOverlay {
 	private cacheWidth = 0;
 	private statusLines: string[] = [];
 	private observationLines: string[] = [];
+	private diffLines: string[] = [];
+	private historyLines: string[] = [];
+	private diffIndex: number;
+	private historyIndex: number;
+	/** History entry shown in the Observations tab instead of the latest compaction. */
+	private viewedHistoryIndex: number | undefined;
+	private prompt: PromptState | undefined;
+	private searchQuery = "";
+	private fileFilter = "";
+	private readonly hiddenPriorities = new Set<Priority>();
+	/** Wrapped Observations-tab line indexes containing the search query. */
+	private matchLines: number[] = [];
+	private matchIndex = 0;
+	private jumpToMatch = false;
+	private settingsLines: string[] = [];
+	private settingsIndex = 0;
+	private settingsMessage: StyledLine | undefined;
 
 	constructor(
 		private snapshot: ObservationMemoryOverlaySnapshot,
-		private done: (result: null) => void,
-	) {}
+		private done: (result: ObservationMemoryOverlayAction | null) => void,
+		private settingsHandler?: ObservationMemoryOverlaySettingsHandler,
+	) {
+		this.diffIndex = Math.max(0, snapshot.diffs.length - 1);
+		this.historyIndex = Math.max(0, snapshot.history.length - 1);
+	}
+
+	/** Swap in a fresh snapshot after extension state changed, keeping tab, scroll, filters and selections. */
+	setSnapshot(snapshot: ObservationMemoryOverlaySnapshot): void {
+		const followLatestDiff = this.diffIndex >= this.snapshot.diffs.length - 1;
+		const followLatestHistory = this.historyIndex >= this.snapshot.history.length - 1;
+		this.snapshot = snapshot;
+		this.diffIndex = followLatestDiff
+			? Math.max(0, snapshot.diffs.length - 1)
+			: Math.min(this.diffIndex, Math.max(0, snapshot.diffs.length - 1));
+		this.historyIndex = followLatestHistory
+			? Math.max(0, snapshot.history.length - 1)
+			: Math.min(this.historyIndex, Math.max(0, snapshot.history.length - 1));
+		if (this.viewedHistoryIndex !== undefined && this.viewedHistoryIndex >= snapshot.history.length) {
+			this.viewedHistoryIndex = undefined;
+		}
+		this.invalidate();
+	}
 
 	handleInput(data: string): void {
+		if (this.prompt) {
+			this.handlePromptInput(this.prompt, data);
+			return;
+		}
+
+		// A History entry opened in the Observations tab: esc or 0 returns to the latest memory.
+		const viewingHistory = this.tab === "observations" && this.viewedHistoryIndex !== undefined;
+		if (viewingHistory && (matchesKey(data, Key.escape) || data === "0")) {
+			this.viewedHistoryIndex = undefined;
+			this.scrollOffset = 0;
+			this.invalidate();
+			return;
+		}
+
 		if (matchesKey(data, Key.escape) || data === "q") {
 			this.done(null);
 			return;
 		}
 
-		if (matchesKey(data, Key.tab) || data === "1" || data === "2") {
-			this.tab = data === "1" ? "status" : data === "2" ? "observations" : this.tab === "status" ? "observations" : "status";
+		// Trace and pin act on the latest memory, so they are off while a History entry is shown.
+		if (data === "t" && this.tab === "observations" && !viewingHistory) {
+			this.done("trace");
+			return;
+		}
+
+		if (data === "p" && this.tab === "observations" && !viewingHistory) {
+			this.done("pin");
+			return;
+		}
+
+		if ((data === "/" || data === "f") && this.tab === "observations") {
+			this.prompt = { kind: data === "/" ? "search" : "file", text: data === "/" ? "" : this.fileFilter };
+			return;
+		}
+
+		if ((data === "n" || data === "N") && this.tab === "observations" && this.matchLines.length > 0) {
+			const step = data === "n" ? 1 : -1;
+			this.matchIndex = (this.matchIndex + step + this.matchLines.length) % this.matchLines.length;
+			this.scrollOffset = this.matchLines[this.matchIndex];
+			return;
+		}
+
+		const togglePriority = PRIORITY_TOGGLE_KEYS[data];
+		if (togglePriority && this.tab === "observations") {
+			if (!this.hiddenPriorities.delete(togglePriority)) this.hiddenPriorities.add(togglePriority);
+			this.scrollOffset = 0;
+			this.invalidate();
+			return;
+		}
+
+		if (this.tab === "history" && this.snapshot.history.length > 0) {
+			const step = matchesKey(data, Key.up) || data === "k" ? -1 : matchesKey(data, Key.down) || data === "j" ? 1 : 0;
+			if (step !== 0) {
+				this.historyIndex = Math.max(0, Math.min(this.snapshot.history.length - 1, this.historyIndex + step));
+				this.invalidate();
+				return;
+			}
+			if (matchesKey(data, Key.enter)) {
+				this.viewedHistoryIndex = this.historyIndex;
+				this.tab = "observations";
+				this.scrollOffset = 0;
+				this.invalidate();
+				return;
+			}
+		}
+
+		if ((data === "[" || data === "]") && this.tab === "diff") {
+			const next = this.diffIndex + (data === "[" ? -1 : 1);
+			if (next >= 0 && next < this.snapshot.diffs.length) {
+				this.diffIndex = next;
+				this.scrollOffset = 0;
+				this.invalidate();
+			}
+			return;
+		}
+
+		if (this.tab === "settings" && this.handleSettingsInput(data)) {
+			return;
+		}
+
+		if (matchesKey(data, Key.tab) || ["1", "2", "3", "4", "5"].includes(data)) {
+			const current = TABS.findIndex(([tab]) => tab === this.tab);
+			const next = matchesKey(data, Key.tab) ? (current + 1) % TABS.length : Number(data) - 1;
+			this.tab = TABS[next][0];
 			this.scrollOffset = 0;
 			return;
 		}
@@ -335,25 +837,87 @@ export class ObservationMemoryOverlay {
 		if (this.cacheWidth !== contentWidth) {
 			this.cacheWidth = contentWidth;
 			this.statusLines = wrapStyledLines(buildStatusLines(this.snapshot), contentWidth);
-			this.observationLines = wrapStyledLines(buildObservationLines(this.snapshot.observations), contentWidth);
+			const viewed = this.viewedHistoryIndex === undefined ? undefined : this.snapshot.history[this.viewedHistoryIndex];
+			const observationLines = wrapStyledLines(
+				viewed
+					? [
+							{
+								text: `History #${(this.viewedHistoryIndex ?? 0) + 1}: ${viewed.type === "compaction" ? "compaction" : "branch summary"} ${viewed.id} (${new Date(viewed.timestamp).toLocaleString()})`,
+								severity: "muted",
+							},
+							{ text: "" },
+							...filterObservationLines(
+								buildObservationLines(viewed.summary, undefined),
+								this.hiddenPriorities,
+								this.fileFilter,
+							),
+						]
+					: filterObservationLines(
+							buildObservationLines(this.snapshot.observations, this.snapshot.pinned),
+							this.hiddenPriorities,
+							this.fileFilter,
+						),
+				contentWidth,
+				this.searchQuery,
+			);
+			this.observationLines = observationLines;
+			const needle = this.searchQuery.toLowerCase();
+			this.matchLines = needle
+				? observationLines.flatMap((line, index) =>
+						line.replace(ANSI_RE, "").toLowerCase().includes(needle) ? [index] : [],
+					)
+				: [];
+			if (this.matchIndex >= this.matchLines.length) this.matchIndex = 0;
+			this.settingsLines = wrapStyledLines(
+				buildSettingsLines(
+					this.snapshot.settings,
+					this.settingsIndex,
+					this.settingsMessage,
+					this.settingsHandler !== undefined,
+				),
+				contentWidth,
+			);
+			this.historyLines = buildHistoryLines(this.snapshot.history, this.historyIndex).map((line) =>
+				styleLine({ ...line, text: clipAnsi(line.text, contentWidth) }),
+			);
+			this.diffLines = wrapStyledLines(buildDiffLines(this.snapshot.diffs, this.diffIndex), contentWidth);
+		}
+
+		if (this.jumpToMatch) {
+			this.jumpToMatch = false;
+			const next = this.matchLines.findIndex((line) => line >= this.scrollOffset);
+			this.matchIndex = next >= 0 ? next : 0;
+			if (this.matchLines.length > 0) this.scrollOffset = this.matchLines[this.matchIndex];
 		}
 
 		const lines = this.activeLines();
+		if (this.tab === "history") {
+			if (this.historyIndex < this.scrollOffset) this.scrollOffset = this.historyIndex;
+			if (this.historyIndex >= this.scrollOffset + this.contentRows) {
+				this.scrollOffset = this.historyIndex - this.contentRows + 1;
+			}
+		}
 		const maxScroll = Math.max(0, lines.length - this.contentRows);
 		if (this.scrollOffset > maxScroll) this.scrollOffset = maxScroll;
 
 		const visible = lines.slice(this.scrollOffset, this.scrollOffset + this.contentRows);
-		const statusTab = this.tab === "status" ? bold(color("36", "● Status")) : dim("○ Status");
-		const obsTab = this.tab === "observations" ? bold(color("36", "● Observations")) : dim("○ Observations");
+		const tabs = TABS.map(([tab, label]) => (this.tab === tab ? bold(color("36", `● ${label}`)) : dim(`○ ${label}`)));
 
 		const out: string[] = [];
-		const title = bold(color("36", " 🧠 Observational Memory "));
+		const summarizing = this.snapshot.summarizing;
+		const activity = summarizing
+			? color(
+					"33",
+					`${SPINNER_FRAMES[Math.floor(Date.now() / SPINNER_FRAME_MS) % SPINNER_FRAMES.length]} ${summarizing.stage} ${Math.max(0, Math.floor((Date.now() - summarizing.startedAt) / 1000))}s `,
+				)
+			: "";
+		const title = bold(color("36", " 🧠 Observational Memory ")) + activity;
 		const sidePad = Math.max(0, innerWidth - visibleLength(title));
 		const leftPad = Math.floor(sidePad / 2);
 		const rightPad = sidePad - leftPad;
 
 		out.push(dim("╭") + dim("─".repeat(leftPad)) + title + dim("─".repeat(rightPad)) + dim("╮"));
-		out.push(dim("│") + " " + padRight(`${statusTab}  ${obsTab}`, innerWidth - 1) + dim("│"));
+		out.push(dim("│") + " " + padRight(tabs.join("  "), innerWidth - 1) + dim("│"));
 		out.push(dim("├") + dim("─".repeat(innerWidth)) + dim("┤"));
 
 		for (let i = 0; i < this.contentRows; i++) {
@@ -365,9 +929,33 @@ export class ObservationMemoryOverlay {
 		const rangeEnd = Math.min(lines.length, this.scrollOffset + this.contentRows);
 		const footer = dim(` ${rangeStart}-${rangeEnd} / ${lines.length} `);
 		const footerPad = Math.max(0, innerWidth - visibleLength(footer));
-		out.push(dim("├") + dim("─".repeat(Math.floor(footerPad / 2))) + footer + dim("─".repeat(Math.ceil(footerPad / 2))) + dim("┤"));
+		out.push(
+			dim("├") +
+				dim("─".repeat(Math.floor(footerPad / 2))) +
+				footer +
+				dim("─".repeat(Math.ceil(footerPad / 2))) +
+				dim("┤"),
+		);
 
-		const hints = dim("↑↓/jk scroll  PgUp/PgDn page  tab switch  esc close");
+		const tabHints =
+			this.tab === "history"
+				? "  enter open"
+				: this.tab === "diff"
+					? "  [ ] older/newer compaction"
+					: this.tab === "settings"
+						? "  ←→ change  enter edit  s/S save"
+						: "";
+		const promptLabel =
+			this.prompt?.kind === "search"
+				? "/"
+				: this.prompt?.kind === "file"
+					? "file: "
+					: `${this.snapshot.settings[this.settingsIndex]?.label ?? "value"}: `;
+		const hints = this.prompt
+			? `${promptLabel}${this.prompt.text}█  ${dim("enter apply  esc cancel")}`
+			: this.tab === "observations"
+				? dim(this.observationHints())
+				: dim(`↑↓/jk scroll  PgUp/PgDn page  tab switch${tabHints}  esc close`);
 		out.push(dim("│") + " " + padRight(hints, innerWidth - 1) + dim("│"));
 		out.push(dim("╰") + dim("─".repeat(innerWidth)) + dim("╯"));
 		return out;
@@ -377,11 +965,116 @@ export class ObservationMemoryOverlay {
 		this.cacheWidth = 0;
 		this.statusLines = [];
 		this.observationLines = [];
+		this.diffLines = [];
+		this.historyLines = [];
+		this.settingsLines = [];
 	}
 
 	dispose(): void {}
 
+	/** Returns true when the key was a Settings-tab key. */
+	private handleSettingsInput(data: string): boolean {
+		const settings = this.snapshot.settings;
+		if (matchesKey(data, Key.up) || data === "k" || matchesKey(data, Key.down) || data === "j") {
+			const step = matchesKey(data, Key.up) || data === "k" ? -1 : 1;
+			this.settingsIndex = Math.max(0, Math.min(settings.length - 1, this.settingsIndex + step));
+			this.settingsMessage = undefined;
+			this.invalidate();
+			return true;
+		}
+
+		const setting = settings[this.settingsIndex];
+		if (!this.settingsHandler || !setting) return false;
+
+		const cycle = matchesKey(data, Key.left) || data === "h" ? -1 : matchesKey(data, Key.right) || data === "l" ? 1 : 0;
+		if (setting.choices && (cycle !== 0 || matchesKey(data, Key.enter) || data === " ")) {
+			const current = setting.choices.indexOf(setting.value);
+			const next = setting.choices[(current + (cycle || 1) + setting.choices.length) % setting.choices.length];
+			this.applySetting(setting, next);
+			return true;
+		}
+		if (!setting.choices && matchesKey(data, Key.enter)) {
+			this.prompt = { kind: "setting", text: setting.value };
+			return true;
+		}
+		if (data === "s" || data === "S") {
+			const { text, level } = this.settingsHandler.save(data === "s" ? "project" : "global");
+			this.settingsMessage = { text, severity: level === "error" ? "red" : level === "warning" ? "yellow" : "green" };
+			this.invalidate();
+			return true;
+		}
+		return false;
+	}
+
+	private applySetting(setting: ObservationMemoryOverlaySetting, value: string): boolean {
+		const error = this.settingsHandler?.apply(setting.key, value);
+		this.settingsMessage = error
+			? { text: `${setting.label}: ${error}${setting.hint ? ` Expected ${setting.hint}.` : ""}`, severity: "red" }
+			: { text: `${setting.label} set to ${value}.`, severity: "green" };
+		this.invalidate();
+		return error === undefined;
+	}
+
+	private handlePromptInput(prompt: PromptState, data: string): void {
+		if (matchesKey(data, Key.escape)) {
+			if (prompt.kind === "search") this.searchQuery = "";
+			this.prompt = undefined;
+		} else if (matchesKey(data, Key.enter)) {
+			if (prompt.kind === "setting") {
+				const setting = this.snapshot.settings[this.settingsIndex];
+				// Invalid input keeps the prompt open so it can be corrected.
+				if (setting && !this.applySetting(setting, prompt.text.trim())) return;
+			}
+			if (prompt.kind === "file") {
+				this.fileFilter = prompt.text.trim();
+				this.scrollOffset = 0;
+			}
+			this.prompt = undefined;
+		} else if (matchesKey(data, Key.backspace)) {
+			prompt.text = prompt.text.slice(0, -1);
+		} else if (data.length === 1 && data >= " ") {
+			prompt.text += data;
+		} else {
+			return;
+		}
+
+		if (prompt.kind === "search" && this.prompt) {
+			this.searchQuery = prompt.text;
+			this.jumpToMatch = true;
+		}
+		this.invalidate();
+	}
+
+	private observationHints(): string {
+		const filters = [
+			...PRIORITY_BULLETS.filter(([priority]) => this.hiddenPriorities.has(priority)).map(
+				([, bullet]) => `${bullet.slice(2)} hidden`,
+			),
+			...(this.fileFilter ? [`file: ${this.fileFilter}`] : []),
+			...(this.searchQuery
+				? [
+						this.matchLines.length > 0
+							? `match ${this.matchIndex + 1}/${this.matchLines.length}`
+							: `no match for "${this.searchQuery}"`,
+					]
+				: []),
+		];
+		const keys =
+			this.viewedHistoryIndex === undefined
+				? "/ search  n/N next/prev  r/y/i 🔴🟡🟢  f file  t trace  p pin  esc close"
+				: "/ search  n/N next/prev  r/y/i 🔴🟡🟢  f file  0/esc latest";
+		return filters.length > 0 ? `${filters.join("  ")}  │  ${keys}` : `↑↓/jk scroll  tab switch  ${keys}`;
+	}
+
 	private activeLines(): string[] {
-		return this.tab === "status" ? this.statusLines : this.observationLines;
+		return this.tab === "status"
+			? this.statusLines
+			: this.tab === "observations"
+				? this.observationLines
+				: this.tab === "history"
+					? this.historyLines
+					: this.tab === "diff"
+						? this.diffLines
+						: this.settingsLines;
 	}
 }